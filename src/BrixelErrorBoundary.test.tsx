@@ -0,0 +1,206 @@
+// @vitest-environment jsdom
+import { act } from "react";
+import type { ReactNode } from "react";
+import { createRoot } from "react-dom/client";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { BrixelErrorBoundary } from "./BrixelErrorBoundary";
+import { BrixelTaskProvider } from "./BrixelTaskProvider";
+import { BrixelTaskClient } from "./client";
+import { embed } from "./testUtils";
+
+(globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+
+let teardown: (() => void)[] = [];
+
+beforeEach(() => {
+  // React logs the errors it catches
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  teardown.forEach((dispose) => dispose());
+  teardown = [];
+  vi.restoreAllMocks();
+});
+
+function render(element: ReactNode) {
+  const container = document.createElement("div");
+  const root = createRoot(container);
+  act(() => root.render(element));
+  teardown.push(() => act(() => root.unmount()));
+  return container;
+}
+
+/** An embedded, initialized client */
+function connect(options: ConstructorParameters<typeof BrixelTaskClient>[0] = {}) {
+  const host = embed();
+  const client = new BrixelTaskClient(options);
+  client.start();
+  host.init();
+  teardown.push(() => client.stop());
+  return { host, client };
+}
+
+let crash = true;
+
+function Crashing() {
+  if (crash) throw new Error("Render failed");
+  return <p>Recovered</p>;
+}
+
+describe("BrixelErrorBoundary", () => {
+  beforeEach(() => {
+    crash = true;
+  });
+
+  it("reports a fatal RENDER_ERROR to the provider's client and renders the fallback", () => {
+    const { host, client } = connect();
+    const onError = vi.fn();
+    let reset!: () => void;
+    const container = render(
+      <BrixelTaskProvider client={client}>
+        <BrixelErrorBoundary
+          onError={onError}
+          fallback={(error, retry) => {
+            reset = retry;
+            return <p>{error.message}</p>;
+          }}
+        >
+          <Crashing />
+        </BrixelErrorBoundary>
+      </BrixelTaskProvider>
+    );
+
+    expect(container.textContent).toBe("Render failed");
+    expect(host.sent("BRIXEL_ERROR")).toEqual([
+      {
+        type: "BRIXEL_ERROR",
+        payload: {
+          runId: "run-1",
+          error: {
+            code: "RENDER_ERROR",
+            message: "Render failed",
+            details: {
+              error: expect.objectContaining({ name: "Error", message: "Render failed" }),
+              componentStack: expect.stringContaining("Crashing"),
+            },
+            fatal: true,
+          },
+        },
+      },
+    ]);
+    expect(client.getSnapshot()).toMatchObject({ status: "error", error: { code: "RENDER_ERROR" } });
+    expect(onError).toHaveBeenCalledWith(
+      expect.any(Error),
+      expect.objectContaining({ componentStack: expect.any(String) })
+    );
+
+    crash = false;
+    act(() => reset());
+    expect(container.textContent).toBe("Recovered");
+  });
+
+  it("reports to the `client` prop over the provider", () => {
+    const client = { reportError: vi.fn() };
+    const container = render(
+      <BrixelErrorBoundary client={client} fallback={<p>Something went wrong</p>}>
+        <Crashing />
+      </BrixelErrorBoundary>
+    );
+
+    expect(container.textContent).toBe("Something went wrong");
+    expect(client.reportError).toHaveBeenCalledWith("RENDER_ERROR", "Render failed", expect.any(Object));
+  });
+
+  it("logs the error without a client to report to", () => {
+    render(
+      <BrixelErrorBoundary fallback={null}>
+        <Crashing />
+      </BrixelErrorBoundary>
+    );
+
+    expect(console.error).toHaveBeenCalledWith(
+      expect.stringContaining("BrixelErrorBoundary has no client to report to"),
+      expect.any(Error)
+    );
+  });
+});
+
+describe("client global error capture", () => {
+  // Vitest rethrows error events carrying an error when nothing else listens
+  const uncaught = (error: Error | null = new Error("Oops")) =>
+    window.dispatchEvent(
+      new ErrorEvent("error", {
+        message: "Uncaught Error: Oops",
+        error,
+        filename: "https://task.test/app.js",
+        lineno: 12,
+        colno: 3,
+      })
+    );
+  const unhandled = (reason: unknown) =>
+    window.dispatchEvent(Object.assign(new Event("unhandledrejection"), { reason }));
+
+  it("reports uncaught errors as non-fatal UNCAUGHT_ERROR", () => {
+    const { host, client } = connect({ captureGlobalErrors: true });
+
+    uncaught();
+    expect(host.sent("BRIXEL_ERROR")).toEqual([
+      {
+        type: "BRIXEL_ERROR",
+        payload: {
+          runId: "run-1",
+          error: {
+            code: "UNCAUGHT_ERROR",
+            message: "Uncaught Error: Oops",
+            details: {
+              error: expect.objectContaining({ message: "Oops" }),
+              source: "https://task.test/app.js",
+              line: 12,
+              column: 3,
+            },
+            fatal: false,
+          },
+        },
+      },
+    ]);
+    expect(client.getSnapshot()).toMatchObject({ status: "ready", error: null });
+  });
+
+  it("reports unhandled rejections as non-fatal UNHANDLED_REJECTION", () => {
+    const { host, client } = connect({ captureGlobalErrors: true });
+
+    unhandled(new Error("Request failed"));
+    unhandled("Not an error");
+    expect(host.sent("BRIXEL_ERROR").map(({ payload }) => payload.error)).toEqual([
+      {
+        code: "UNHANDLED_REJECTION",
+        message: "Request failed",
+        details: { error: expect.objectContaining({ name: "Error", message: "Request failed" }) },
+        fatal: false,
+      },
+      {
+        code: "UNHANDLED_REJECTION",
+        message: "Not an error",
+        details: { error: { name: "NonError", message: "Not an error" } },
+        fatal: false,
+      },
+    ]);
+    expect(client.getSnapshot().status).toBe("ready");
+  });
+
+  it("doesn't listen without captureGlobalErrors", () => {
+    const { host } = connect();
+    uncaught(null);
+    unhandled(new Error("Request failed"));
+    expect(host.sent("BRIXEL_ERROR")).toEqual([]);
+  });
+
+  it("stops listening when the client stops", () => {
+    const { host, client } = connect({ captureGlobalErrors: true });
+    client.stop();
+    uncaught(null);
+    unhandled(new Error("Request failed"));
+    expect(host.sent("BRIXEL_ERROR")).toEqual([]);
+  });
+});
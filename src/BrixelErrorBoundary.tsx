@@ -0,0 +1,81 @@
+import { Component } from "react";
+import type { ErrorInfo, ReactNode } from "react";
+import { BrixelTaskClientContext } from "./BrixelTaskProvider";
+import { serializeError } from "./errors";
+import type { BrixelTaskActions } from "./types";
+
+export interface BrixelErrorBoundaryProps {
+  children?: ReactNode;
+  /** Rendered instead of the crashed tree; functions receive the error and a reset callback */
+  fallback: ReactNode | ((error: Error, reset: () => void) => ReactNode);
+  /**
+   * Where to report (a `BrixelTaskClient` or the `useBrixelTask` result).
+   * Default: the client of the nearest `BrixelTaskProvider`.
+   */
+  client?: Pick<BrixelTaskActions, "reportError">;
+  /** Called after the error has been reported */
+  onError?: (error: Error, info: ErrorInfo) => void;
+}
+
+interface BrixelErrorBoundaryState {
+  error: Error | null;
+}
+
+/**
+ * Error boundary reporting render errors to the host
+ *
+ * Caught errors are sent as a fatal BRIXEL_ERROR (code "RENDER_ERROR") with a
+ * serialized stack and component stack, and move `status` to "error", so the
+ * workflow doesn't wait on a blank iframe.
+ *
+ * @example
+ * ```tsx
+ * <BrixelTaskProvider>
+ *   <BrixelErrorBoundary fallback={<p>Something went wrong.</p>}>
+ *     <MyUITask />
+ *   </BrixelErrorBoundary>
+ * </BrixelTaskProvider>
+ * ```
+ */
+export class BrixelErrorBoundary extends Component<BrixelErrorBoundaryProps, BrixelErrorBoundaryState> {
+  static contextType = BrixelTaskClientContext;
+  declare context: Pick<BrixelTaskActions, "reportError"> | null;
+
+  state: BrixelErrorBoundaryState = { error: null };
+
+  static getDerivedStateFromError(error: Error): BrixelErrorBoundaryState {
+    return { error };
+  }
+
+  componentDidCatch(error: Error, info: ErrorInfo): void {
+    const client = this.props.client ?? this.context;
+
+    if (client) {
+      client.reportError("RENDER_ERROR", error.message || "Render error", {
+        error: serializeError(error),
+        componentStack: info.componentStack ?? undefined,
+      });
+    } else {
+      console.error(
+        "[BrixelSDK] BrixelErrorBoundary has no client to report to - wrap it in <BrixelTaskProvider> or pass `client`",
+        error
+      );
+    }
+
+    this.props.onError?.(error, info);
+  }
+
+  reset = (): void => {
+    this.setState({ error: null });
+  };
+
+  render(): ReactNode {
+    const { error } = this.state;
+    if (!error) {
+      return this.props.children;
+    }
+
+    const { fallback } = this.props;
+    return typeof fallback === "function" ? fallback(error, this.reset) : fallback;
+  }
+}
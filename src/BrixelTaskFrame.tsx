@@ -0,0 +1,243 @@
+import { useEffect, useRef } from "react";
+import type { CSSProperties } from "react";
+import type {
+  BrixelContext,
+  BrixelHost,
+  BrixelHostOptions,
+  BrixelTaskOutcome,
+  RenderMode,
+} from "./types";
+import { createBrixelHost } from "./host";
+
+export interface BrixelTaskFrameProps<TInputs = unknown, TOutput = unknown> {
+  /** URL of the UI Task entry */
+  src: string;
+  /** Inputs for the UI Task (memoize to avoid redundant BRIXEL_UPDATE_INPUTS) */
+  inputs: TInputs;
+  /** Context for the UI Task (changes are forwarded; memoize nested objects such as `user` and `designTokens`) */
+  context: BrixelContext;
+  /** Render mode (default: "interaction") */
+  renderMode?: RenderMode;
+  /** Origin of the UI Task (default: origin of `src`, or "null" when `sandbox` lacks `allow-same-origin`) */
+  allowedOrigin?: string;
+  /** Callback when the UI Task completes, cancels, errors or is destroyed */
+  onResult?: (outcome: BrixelTaskOutcome<TOutput>) => void;
+  /** Callback when the UI Task requests a height change */
+  onResize?: BrixelHostOptions<TInputs, TOutput>["onResize"];
+  /** Accept or reject the output of BRIXEL_COMPLETE (default: accept) */
+  acceptCompletion?: BrixelHostOptions<TInputs, TOutput>["acceptCompletion"];
+  /** Accept or reject BRIXEL_CANCEL (default: accept) */
+  acceptCancellation?: BrixelHostOptions<TInputs, TOutput>["acceptCancellation"];
+  /** Accept or reject capability requests (default: accept those advertised in `context.capabilities`) */
+  acceptCapability?: BrixelHostOptions<TInputs, TOutput>["acceptCapability"];
+  /** Provide files for `requestFiles` (default: the browser file picker) */
+  pickFiles?: BrixelHostOptions<TInputs, TOutput>["pickFiles"];
+  /** Save files offered with `offerDownload` (default: browser download) */
+  saveDownload?: BrixelHostOptions<TInputs, TOutput>["saveDownload"];
+  /** Show notifications of the UI Task (advertise `capabilities.notifications`) */
+  onNotify?: BrixelHostOptions<TInputs, TOutput>["onNotify"];
+  /** Answer confirm requests (default: `window.confirm`; advertise `capabilities.dialogs`) */
+  confirm?: BrixelHostOptions<TInputs, TOutput>["confirm"];
+  /** Render child UI Tasks (advertise `capabilities.subtasks`) */
+  openSubtask?: BrixelHostOptions<TInputs, TOutput>["openSubtask"];
+  /** Deepest subtask nesting level allowed (default: 3) */
+  maxSubtaskDepth?: number;
+  /** Issue fresh API tokens (advertise `capabilities.tokenRefresh`) */
+  refreshToken?: BrixelHostOptions<TInputs, TOutput>["refreshToken"];
+  /** Drafts to restore when the task (re)initializes, e.g. kept from `onSaveState` */
+  savedState?: Record<string, unknown>;
+  /** Callback when the UI Task saves its drafts (null once it completes or cancels) */
+  onSaveState?: BrixelHostOptions<TInputs, TOutput>["onSaveState"];
+  /** Iframe `sandbox` attribute */
+  sandbox?: string;
+  /** Iframe `title` attribute (default: "Brixel UI Task") */
+  title?: string;
+  className?: string;
+  style?: CSSProperties;
+  /** Enable debug logging */
+  debug?: boolean;
+}
+
+/**
+ * Context fields that changed, other than those with a dedicated message (theme, locale, design tokens)
+ */
+function changedFields(prev: BrixelContext, next: BrixelContext): Partial<BrixelContext> {
+  const patch: Partial<Record<keyof BrixelContext, unknown>> = {};
+  const keys = new Set([...Object.keys(prev), ...Object.keys(next)] as Array<keyof BrixelContext>);
+  for (const key of keys) {
+    if (key === "theme" || key === "designTokens" || key === "locale" || key === "runId") continue;
+    if (key === "capabilities") {
+      const flags = Object.keys({ ...prev.capabilities, ...next.capabilities }) as Array<
+        keyof BrixelContext["capabilities"]
+      >;
+      if (flags.some((flag) => prev.capabilities[flag] !== next.capabilities[flag])) {
+        patch.capabilities = next.capabilities;
+      }
+    } else if (!Object.is(prev[key], next[key])) {
+      patch[key] = next[key];
+    }
+  }
+  return patch as Partial<BrixelContext>;
+}
+
+/**
+ * Origin the task's messages come from. Sandboxed documents without
+ * `allow-same-origin` have an opaque origin, sent as "null"; so does a `src`
+ * that can't be parsed, rather than trusting every origin.
+ */
+function resolveOrigin(src: string, sandbox: string | undefined): string {
+  if (sandbox !== undefined && !sandbox.split(/\s+/).includes("allow-same-origin")) {
+    return "null";
+  }
+  try {
+    return new URL(src, window.location.href).origin;
+  } catch {
+    return "null";
+  }
+}
+
+/**
+ * React component embedding a UI Task, built on `createBrixelHost`
+ *
+ * @example
+ * ```tsx
+ * <BrixelTaskFrame
+ *   src="https://tasks.example.com/survey/index.html"
+ *   inputs={inputs}
+ *   context={context}
+ *   onResult={(outcome) => {
+ *     if (outcome.status === "completed") save(outcome.output);
+ *   }}
+ * />
+ * ```
+ */
+export function BrixelTaskFrame<TInputs = unknown, TOutput = unknown>(
+  props: BrixelTaskFrameProps<TInputs, TOutput>
+) {
+  const {
+    src,
+    inputs,
+    context,
+    renderMode,
+    allowedOrigin,
+    onResult,
+    onResize,
+    acceptCompletion,
+    acceptCancellation,
+    acceptCapability,
+    pickFiles,
+    saveDownload,
+    onNotify,
+    confirm,
+    openSubtask,
+    maxSubtaskDepth,
+    refreshToken,
+    savedState,
+    onSaveState,
+    sandbox,
+    title = "Brixel UI Task",
+    className,
+    style,
+    debug,
+  } = props;
+
+  const iframeRef = useRef<HTMLIFrameElement>(null);
+  const hostRef = useRef<BrixelHost<TInputs, TOutput> | null>(null);
+
+  // Latest values, read by the host without recreating it
+  const callbacks = {
+    onResult,
+    onResize,
+    acceptCompletion,
+    acceptCancellation,
+    acceptCapability,
+    pickFiles,
+    saveDownload,
+    onNotify,
+    confirm,
+    openSubtask,
+    refreshToken,
+    onSaveState,
+  };
+  const latest = useRef({ inputs, context, savedState, ...callbacks });
+  latest.current = { inputs, context, savedState, ...callbacks };
+
+  const origin = allowedOrigin ?? resolveOrigin(src, sandbox);
+
+  // One host per iframe document / run
+  useEffect(() => {
+    const iframe = iframeRef.current;
+    if (!iframe) return;
+
+    const host = createBrixelHost<TInputs, TOutput>(iframe, {
+      inputs: latest.current.inputs,
+      context: latest.current.context,
+      renderMode,
+      allowedOrigin: origin,
+      onResize: (height) => latest.current.onResize?.(height),
+      acceptCompletion: (output, port) => latest.current.acceptCompletion?.(output, port) ?? true,
+      acceptCancellation: (reason) => latest.current.acceptCancellation?.(reason) ?? true,
+      acceptCapability: (request) => latest.current.acceptCapability?.(request) ?? true,
+      pickFiles: pickFiles && ((options) => latest.current.pickFiles!(options)),
+      saveDownload: saveDownload && ((file) => latest.current.saveDownload!(file)),
+      onNotify: (notification) => latest.current.onNotify?.(notification),
+      confirm: confirm && ((options) => latest.current.confirm!(options)),
+      openSubtask: openSubtask && ((request) => latest.current.openSubtask!(request)),
+      maxSubtaskDepth,
+      refreshToken: refreshToken && (() => latest.current.refreshToken!()),
+      savedState: latest.current.savedState,
+      onSaveState: (state) => latest.current.onSaveState?.(state),
+      debug,
+    });
+    hostRef.current = host;
+
+    host.result.then((outcome) => {
+      if (hostRef.current === host) {
+        latest.current.onResult?.(outcome);
+      }
+    });
+
+    return () => {
+      hostRef.current = null;
+      void host.destroy();
+    };
+  }, [src, origin, renderMode, context.runId, maxSubtaskDepth, debug]);
+
+  // Forward later changes to the running task
+  const previous = useRef({ inputs, context });
+
+  useEffect(() => {
+    const host = hostRef.current;
+    const prev = previous.current;
+    previous.current = { inputs, context };
+    if (!host) return;
+
+    if (prev.inputs !== inputs) {
+      // The prop holds the complete inputs: fields it no longer has must go away too
+      host.replaceInputs(inputs);
+    }
+    const tokensChanged = prev.context.designTokens !== context.designTokens;
+    if (prev.context.theme !== context.theme || tokensChanged) {
+      // Removed tokens are sent as empty ones, so the task drops them too
+      host.updateTheme(context.theme, tokensChanged ? (context.designTokens ?? {}) : undefined);
+    }
+    if (prev.context.locale !== context.locale) {
+      host.updateLocale(context.locale);
+    }
+    const patch = changedFields(prev.context, context);
+    if (Object.keys(patch).length > 0) {
+      host.updateContext(patch);
+    }
+  }, [inputs, context]);
+
+  return (
+    <iframe
+      ref={iframeRef}
+      src={src}
+      title={title}
+      sandbox={sandbox}
+      className={className}
+      style={{ border: "none", width: "100%", ...style }}
+    />
+  );
+}
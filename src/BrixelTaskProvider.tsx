@@ -0,0 +1,209 @@
+import { createContext, useContext, useEffect, useRef, useState, useSyncExternalStore } from "react";
+import type { ReactNode } from "react";
+import type {
+  BrixelContext,
+  BrixelTaskActions,
+  BrixelTaskClientOptions,
+  BrixelTaskSnapshot,
+  ResolvedTheme,
+  TaskStatus,
+} from "./types";
+import { BrixelTaskClient } from "./client";
+
+/**
+ * Client shared by a `BrixelTaskProvider` (null outside of a provider)
+ */
+export const BrixelTaskClientContext = createContext<BrixelTaskClient<unknown, unknown> | null>(null);
+
+export interface BrixelTaskProviderProps<TInputs = unknown, TOutput = unknown>
+  extends BrixelTaskClientOptions {
+  children?: ReactNode;
+  /** Existing client to share (default: one created and started by the provider) */
+  client?: BrixelTaskClient<TInputs, TOutput>;
+}
+
+/**
+ * Owns a single connection to the host for the whole component tree
+ *
+ * Components below it use the granular hooks (`useBrixelInputs`, `useBrixelContext`,
+ * `useBrixelActions`, `useBrixelStatus`) or `useBrixelTask`, which all share the same
+ * handshake, completion state and resize observer.
+ *
+ * @example
+ * ```tsx
+ * import { BrixelTaskProvider } from "@brixel/ui-task-sdk";
+ *
+ * createRoot(root).render(
+ *   <BrixelTaskProvider allowedOrigins={["https://console.brixel.ai"]}>
+ *     <App />
+ *   </BrixelTaskProvider>
+ * );
+ * ```
+ */
+export function BrixelTaskProvider<TInputs = unknown, TOutput = unknown>({
+  children,
+  client: providedClient,
+  ...options
+}: BrixelTaskProviderProps<TInputs, TOutput>) {
+  const [ownClient] = useState(() =>
+    providedClient ? null : new BrixelTaskClient<TInputs, TOutput>(options)
+  );
+  const client = (providedClient ?? ownClient) as unknown as BrixelTaskClient<unknown, unknown>;
+
+  // Keep callbacks and schemas current without restarting the handshake
+  if (ownClient) {
+    ownClient.setOptions(options);
+  }
+
+  useEffect(() => {
+    if (!ownClient) return;
+    ownClient.start();
+    return () => ownClient.stop();
+  }, [ownClient]);
+
+  return <BrixelTaskClientContext.Provider value={client}>{children}</BrixelTaskClientContext.Provider>;
+}
+
+/**
+ * Client of the nearest `BrixelTaskProvider`. `hook` names the caller in the error
+ * thrown outside of one: a client created by `useBrixelTask` is not shared.
+ */
+export function useProvidedClient<TInputs = unknown, TOutput = unknown>(
+  hook: string
+): BrixelTaskClient<TInputs, TOutput> {
+  const client = useContext(BrixelTaskClientContext);
+  if (!client) {
+    throw new Error(
+      `[BrixelSDK] ${hook}() must be used inside <BrixelTaskProvider>. ` +
+        "useBrixelTask() alone does not share its client: wrap the task in <BrixelTaskProvider>."
+    );
+  }
+  return client as BrixelTaskClient<TInputs, TOutput>;
+}
+
+/**
+ * Access the client shared by the nearest `BrixelTaskProvider`
+ */
+export function useBrixelTaskClient<TInputs = unknown, TOutput = unknown>(): BrixelTaskClient<TInputs, TOutput> {
+  return useProvidedClient("useBrixelTaskClient");
+}
+
+/**
+ * Subscribe to a slice of the client snapshot, re-rendering only when it changes
+ */
+function useSnapshotSelector<TInputs, TSelected>(
+  client: BrixelTaskClient<TInputs, unknown>,
+  select: (snapshot: BrixelTaskSnapshot<TInputs>) => TSelected,
+  isEqual: (a: TSelected, b: TSelected) => boolean = Object.is
+): TSelected {
+  const cache = useRef<{
+    snapshot: BrixelTaskSnapshot<TInputs>;
+    select: typeof select;
+    value: TSelected;
+  } | null>(null);
+
+  const getSelection = () => {
+    const snapshot = client.getSnapshot();
+    const cached = cache.current;
+    if (cached && cached.snapshot === snapshot && cached.select === select) {
+      return cached.value;
+    }
+
+    const value = select(snapshot);
+    // Keep the previous reference when the slice is unchanged
+    const stable = cached && isEqual(cached.value, value) ? cached.value : value;
+    cache.current = { snapshot, select, value: stable };
+    return stable;
+  };
+
+  return useSyncExternalStore(client.subscribe, getSelection, getSelection);
+}
+
+/**
+ * Current inputs, or a slice of them
+ *
+ * With a selector, the component only re-renders when the selected value changes
+ * (compared with `Object.is`, or `isEqual` if given). The selector is not called
+ * before INIT; the hook returns null until then.
+ *
+ * @example
+ * ```tsx
+ * const title = useBrixelInputs((inputs: Inputs) => inputs.title);
+ * ```
+ */
+export function useBrixelInputs<TInputs = unknown>(): TInputs | null;
+export function useBrixelInputs<TInputs, TSelected>(
+  selector: (inputs: TInputs) => TSelected,
+  isEqual?: (a: TSelected, b: TSelected) => boolean
+): TSelected | null;
+export function useBrixelInputs<TInputs, TSelected>(
+  selector?: (inputs: TInputs) => TSelected,
+  isEqual?: (a: TSelected | TInputs | null, b: TSelected | TInputs | null) => boolean
+): TSelected | TInputs | null {
+  const client = useProvidedClient<TInputs>("useBrixelInputs");
+  return useSnapshotSelector(
+    client,
+    ({ inputs }) => (inputs === null ? null : selector ? selector(inputs) : inputs),
+    isEqual
+  );
+}
+
+/**
+ * Brixel context (user, theme, locale, etc.), null before INIT
+ */
+export function useBrixelContext(): BrixelContext | null {
+  return useSnapshotSelector(useProvidedClient("useBrixelContext"), (snapshot) => snapshot.context);
+}
+
+/**
+ * Theme to render with, "light" or "dark": `context.theme` with "system" resolved
+ * against the OS preference. Re-renders when the host or the OS switches.
+ *
+ * Must be used inside a `BrixelTaskProvider`; with `useBrixelTask` alone, read
+ * `resolvedTheme` from its result instead.
+ *
+ * @example
+ * ```tsx
+ * const theme = useBrixelTheme();
+ * return <Chart palette={theme === "dark" ? darkPalette : lightPalette} />;
+ * ```
+ */
+export function useBrixelTheme(): ResolvedTheme {
+  return useSnapshotSelector(useProvidedClient("useBrixelTheme"), (snapshot) => snapshot.resolvedTheme);
+}
+
+/**
+ * Current task status
+ */
+export function useBrixelStatus(): TaskStatus {
+  return useSnapshotSelector(useProvidedClient("useBrixelStatus"), (snapshot) => snapshot.status);
+}
+
+/**
+ * Task actions. Stable references that never trigger a re-render.
+ */
+export function useBrixelActions<TOutput = unknown>(): BrixelTaskActions<TOutput> {
+  const client = useProvidedClient<unknown, TOutput>("useBrixelActions");
+  const [actions] = useState<BrixelTaskActions<TOutput>>(() => ({
+    complete: client.complete,
+    cancel: client.cancel,
+    reportError: client.reportError,
+    reportProgress: client.reportProgress,
+    emitPartial: client.emitPartial,
+    setHeight: client.setHeight,
+    log: client.log,
+    requestFullscreen: client.requestFullscreen,
+    exitFullscreen: client.exitFullscreen,
+    copyToClipboard: client.copyToClipboard,
+    openExternalUrl: client.openExternalUrl,
+    requestFiles: client.requestFiles,
+    offerDownload: client.offerDownload,
+    notify: client.notify,
+    confirm: client.confirm,
+    openSubtask: client.openSubtask,
+    refreshToken: client.refreshToken,
+    executeTask: client.executeTask,
+    executeTaskAsync: client.executeTaskAsync,
+  }));
+  return actions;
+}
@@ -0,0 +1,100 @@
+#!/usr/bin/env node
+/// <reference types="node" />
+/**
+ * brixel-task command line
+ *
+ * Usage:
+ *   brixel-task validate <path> [--json]
+ *
+ * `<path>` is a manifest file or a directory containing `manifest.json`.
+ * Exits with code 1 when the manifest is invalid, so it can gate CI pipelines.
+ */
+import { existsSync, readFileSync, statSync } from "node:fs";
+import { dirname, join, resolve } from "node:path";
+import { parseManifest } from "./manifest";
+import type { ManifestDiagnostic } from "./types";
+
+const USAGE = `Usage: brixel-task validate <path> [--json]
+
+Commands:
+  validate <path>   Validate a manifest file (or a directory containing manifest.json)
+
+Options:
+  --json            Print diagnostics as JSON
+  -h, --help        Show this help`;
+
+function formatDiagnostic(file: string, diagnostic: ManifestDiagnostic): string {
+  const label = diagnostic.severity === "error" ? "error" : "warning";
+  return `${file}#${diagnostic.path || "/"}  ${label}  ${diagnostic.message}  (${diagnostic.code})`;
+}
+
+function validate(target: string, json: boolean): number {
+  let file = resolve(target);
+  if (existsSync(file) && statSync(file).isDirectory()) {
+    file = join(file, "manifest.json");
+  }
+
+  if (!existsSync(file)) {
+    console.error(`brixel-task: manifest not found: ${file}`);
+    return 2;
+  }
+
+  const result = parseManifest(readFileSync(file, "utf8"));
+  const diagnostics = [...result.diagnostics];
+
+  // The entry should exist next to the manifest unless it is a URL
+  if (result.valid && !/^[a-z][a-z\d+.-]*:/i.test(result.manifest.entry)) {
+    const entryPath = resolve(dirname(file), result.manifest.entry);
+    if (!existsSync(entryPath)) {
+      diagnostics.push({
+        severity: "warning",
+        path: "/entry",
+        code: "entry_not_found",
+        message: `Entry file not found: ${entryPath}`,
+      });
+    }
+  }
+
+  if (json) {
+    console.log(JSON.stringify({ file, valid: result.valid, diagnostics }, null, 2));
+  } else {
+    for (const diagnostic of diagnostics) {
+      const line = formatDiagnostic(file, diagnostic);
+      if (diagnostic.severity === "error") {
+        console.error(line);
+      } else {
+        console.warn(line);
+      }
+    }
+
+    const errors = diagnostics.filter((d) => d.severity === "error").length;
+    const warnings = diagnostics.length - errors;
+    console.log(
+      result.valid
+        ? `✔ ${file} is valid${warnings ? ` (${warnings} warning${warnings === 1 ? "" : "s"})` : ""}`
+        : `✖ ${file} is invalid: ${errors} error${errors === 1 ? "" : "s"}, ${warnings} warning${warnings === 1 ? "" : "s"}`
+    );
+  }
+
+  return result.valid ? 0 : 1;
+}
+
+function main(argv: string[]): number {
+  const args = argv.filter((arg) => !arg.startsWith("-"));
+  const flags = new Set(argv.filter((arg) => arg.startsWith("-")));
+
+  if (flags.has("-h") || flags.has("--help")) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  const [command, target] = args;
+  if (command === "validate" && target) {
+    return validate(target, flags.has("--json"));
+  }
+
+  console.error(USAGE);
+  return 2;
+}
+
+process.exitCode = main(process.argv.slice(2));
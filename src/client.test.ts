@@ -0,0 +1,795 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { BrixelTaskClient } from "./client";
+import { createBrixelHost } from "./host";
+import { mockContext } from "./devTools";
+import { embed } from "./testUtils";
+import type {
+  BrixelHostOptions,
+  BrixelTaskClientOptions,
+  OutputPorts,
+  TaskStatus,
+  UITaskManifest,
+} from "./types";
+
+const HOST_ORIGIN = "https://host.test";
+const TASK_ORIGIN = "https://task.test";
+
+type Inputs = { name: string };
+
+/**
+ * Wire a client (running in this window, standalone) to a real host whose iframe
+ * is a stub: jsdom doesn't set `event.source` on postMessage, so messages are
+ * re-dispatched with the source each side expects.
+ */
+function connect(
+  clientOptions: BrixelTaskClientOptions = {},
+  hostOptions: Partial<BrixelHostOptions<Inputs, unknown>> = {}
+) {
+  const frameWindow = {
+    postMessage: (data: unknown) => {
+      setTimeout(() =>
+        window.dispatchEvent(new MessageEvent("message", { data, origin: HOST_ORIGIN, source: window }))
+      );
+    },
+  } as unknown as Window;
+  const iframe = { contentWindow: frameWindow, style: {} } as HTMLIFrameElement;
+
+  vi.spyOn(window, "postMessage").mockImplementation((data: unknown) => {
+    setTimeout(() =>
+      window.dispatchEvent(new MessageEvent("message", { data, origin: TASK_ORIGIN, source: frameWindow }))
+    );
+  });
+
+  const host = createBrixelHost<Inputs>(iframe, {
+    inputs: { name: "" },
+    context: mockContext,
+    allowedOrigin: TASK_ORIGIN,
+    ...hostOptions,
+  });
+  const client = new BrixelTaskClient<Inputs>(clientOptions);
+  client.start();
+
+  return { host, client };
+}
+
+function waitForStatus(client: BrixelTaskClient<Inputs>, status: TaskStatus): Promise<void> {
+  return new Promise((resolve) => {
+    if (client.getSnapshot().status === status) return resolve();
+    const off = client.on("status", (next) => {
+      if (next !== status) return;
+      off();
+      resolve();
+    });
+  });
+}
+
+let teardown: (() => void)[] = [];
+
+afterEach(() => {
+  teardown.forEach((dispose) => dispose());
+  teardown = [];
+  vi.restoreAllMocks();
+});
+
+describe("BrixelTaskClient message security", () => {
+  function secure(options: BrixelTaskClientOptions = {}) {
+    const host = embed();
+    const onSecurityViolation = vi.fn();
+    const client = new BrixelTaskClient<Inputs>({ ...options, onSecurityViolation });
+    client.start();
+    teardown.push(() => client.stop());
+    return { host, client, onSecurityViolation };
+  }
+
+  it("rejects messages that don't come from the parent window", () => {
+    const { host, client, onSecurityViolation } = secure();
+
+    host.init({}, { source: window });
+    expect(client.getSnapshot().runId).toBeNull();
+    expect(onSecurityViolation).toHaveBeenCalledWith({
+      reason: "source",
+      origin: HOST_ORIGIN,
+      messageType: "BRIXEL_INIT",
+      message: "Message was not sent by the parent window",
+    });
+
+    host.init();
+    expect(client.getSnapshot().runId).toBe("run-1");
+  });
+
+  it("rejects origins outside allowedOrigins", () => {
+    const { host, client, onSecurityViolation } = secure({
+      allowedOrigins: [HOST_ORIGIN, /^https:\/\/.*\.brixel\.ai$/],
+    });
+
+    host.init({}, { origin: "https://evil.test" });
+    expect(client.getSnapshot().runId).toBeNull();
+    expect(onSecurityViolation).toHaveBeenCalledWith(
+      expect.objectContaining({ reason: "origin", origin: "https://evil.test", messageType: "BRIXEL_INIT" })
+    );
+
+    host.init({}, { origin: "https://app.brixel.ai" });
+    expect(client.getSnapshot().runId).toBe("run-1");
+  });
+
+  it("pins the host origin on INIT and drops other origins afterwards", () => {
+    const { host, client, onSecurityViolation } = secure();
+    expect(host.sent("BRIXEL_READY")).toHaveLength(1);
+    expect(host.parent.postMessage).toHaveBeenLastCalledWith(expect.anything(), "*", undefined);
+
+    host.init();
+    client.log("info", "Hi");
+    expect(host.parent.postMessage).toHaveBeenLastCalledWith(
+      expect.objectContaining({ type: "BRIXEL_LOG" }),
+      HOST_ORIGIN,
+      undefined
+    );
+
+    const spoofed = { runId: "run-1", inputs: { name: "Mallory" } };
+    host.send("BRIXEL_UPDATE_INPUTS", spoofed, { origin: "https://other.test" });
+    expect(client.getSnapshot().inputs).toEqual({});
+    expect(onSecurityViolation).toHaveBeenCalledWith(
+      expect.objectContaining({
+        reason: "origin",
+        message: `Origin "https://other.test" does not match host origin "${HOST_ORIGIN}"`,
+      })
+    );
+  });
+
+  it("drops messages for another run", () => {
+    const { host, client, onSecurityViolation } = secure();
+    host.init();
+
+    host.send("BRIXEL_UPDATE_INPUTS", { runId: "run-0", inputs: { name: "Stale" } });
+    expect(client.getSnapshot().inputs).toEqual({});
+    expect(onSecurityViolation).toHaveBeenCalledWith(
+      expect.objectContaining({ reason: "runId", messageType: "BRIXEL_UPDATE_INPUTS" })
+    );
+
+    host.send("BRIXEL_UPDATE_INPUTS", { runId: "run-1", inputs: { name: "Ada" } });
+    expect(client.getSnapshot().inputs).toEqual({ name: "Ada" });
+  });
+
+  it("skips origin checks in standalone mode", () => {
+    const onSecurityViolation = vi.fn();
+    vi.spyOn(window, "postMessage").mockImplementation(() => {});
+    const client = new BrixelTaskClient<Inputs>({ allowedOrigins: [HOST_ORIGIN], onSecurityViolation });
+    client.start();
+    teardown.push(() => client.stop());
+
+    window.dispatchEvent(
+      new MessageEvent("message", {
+        data: {
+          type: "BRIXEL_INIT",
+          payload: { runId: "run-1", inputs: {}, context: mockContext, renderMode: "interaction" },
+        },
+        origin: "https://dev.test",
+        source: window,
+      })
+    );
+    expect(client.getSnapshot().runId).toBe("run-1");
+    expect(onSecurityViolation).not.toHaveBeenCalled();
+  });
+});
+
+/** An embedded client on fake timers, with `host` standing in for the parent */
+function start(options: BrixelTaskClientOptions) {
+  vi.useFakeTimers();
+  const host = embed();
+  const client = new BrixelTaskClient<Inputs>(options);
+  client.start();
+  teardown.push(() => client.stop(), () => vi.useRealTimers());
+  return { host, client };
+}
+
+describe("BrixelTaskClient handshake and heartbeat", () => {
+  it("re-sends READY with backoff until INIT arrives", () => {
+    const { host } = start({ readyRetryIntervalMs: 100, readyRetryMaxIntervalMs: 400 });
+    const readyCount = () => host.sent("BRIXEL_READY").length;
+    expect(readyCount()).toBe(1);
+
+    // 100, 200, 400, then capped at 400
+    for (const [delayMs, count] of [
+      [100, 2],
+      [200, 3],
+      [400, 4],
+      [400, 5],
+    ] as const) {
+      vi.advanceTimersByTime(delayMs - 1);
+      expect(readyCount()).toBe(count - 1);
+      vi.advanceTimersByTime(1);
+      expect(readyCount()).toBe(count);
+    }
+
+    host.init();
+    vi.advanceTimersByTime(10_000);
+    expect(readyCount()).toBe(5);
+  });
+
+  it("reports INIT_TIMEOUT, and still recovers on a late INIT", () => {
+    const { host, client } = start({ initTimeoutMs: 1_000 });
+
+    vi.advanceTimersByTime(999);
+    expect(client.getSnapshot().status).not.toBe("error");
+    vi.advanceTimersByTime(1);
+    expect(client.getSnapshot()).toMatchObject({ status: "error", error: { code: "INIT_TIMEOUT" } });
+
+    host.init();
+    expect(client.getSnapshot()).toMatchObject({ status: "ready", error: null });
+  });
+
+  it("marks the connection lost without PONG, and connected again once the host answers", () => {
+    const { host, client } = start({ heartbeat: { intervalMs: 1_000, timeoutMs: 2_500 } });
+    const onConnection = vi.fn();
+    client.on("connection", onConnection);
+    host.init();
+    expect(client.getSnapshot().connection).toBe("connected");
+
+    vi.advanceTimersByTime(2_000);
+    expect(host.sent("BRIXEL_PING")).toHaveLength(2);
+    expect(client.getSnapshot().connection).toBe("connected");
+
+    vi.advanceTimersByTime(1_000);
+    expect(client.getSnapshot().connection).toBe("lost");
+    expect(onConnection).toHaveBeenLastCalledWith("lost");
+
+    const [ping] = host.sent("BRIXEL_PING").slice(-1);
+    host.send("BRIXEL_PONG", { runId: "run-1", pingId: ping.payload.pingId });
+    expect(client.getSnapshot().connection).toBe("connected");
+    expect(onConnection).toHaveBeenLastCalledWith("connected");
+
+    // Answered pings keep it connected
+    for (let i = 0; i < 5; i++) {
+      vi.advanceTimersByTime(1_000);
+      host.send("BRIXEL_PONG", { runId: "run-1", pingId: host.sent("BRIXEL_PING").at(-1)?.payload.pingId });
+    }
+    expect(client.getSnapshot().connection).toBe("connected");
+  });
+
+  it("doesn't ping without the heartbeat option", () => {
+    const { host } = start({});
+    host.init();
+    vi.advanceTimersByTime(60_000);
+    expect(host.sent("BRIXEL_PING")).toEqual([]);
+  });
+});
+
+describe("BrixelTaskClient destroy", () => {
+  it("saves drafts and tears down, then acknowledges once onDestroy resolves", async () => {
+    let finish!: () => void;
+    const onDestroy = vi.fn(() => new Promise<void>((resolve) => (finish = resolve)));
+    const { host, client } = start({ onDestroy });
+    const onDestroyEvent = vi.fn();
+    client.on("destroy", onDestroyEvent);
+    host.init();
+    client.saveDraft("note", "unsaved");
+
+    host.send("BRIXEL_DESTROY", { runId: "run-1" });
+    expect(host.sent("BRIXEL_SAVE_STATE")).toEqual([
+      { type: "BRIXEL_SAVE_STATE", payload: { runId: "run-1", state: { note: "unsaved" } } },
+    ]);
+    expect(client.getSnapshot().status).toBe("destroyed");
+    expect(onDestroyEvent).toHaveBeenCalled();
+    expect(onDestroy).toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(100);
+    expect(host.sent("BRIXEL_DESTROY_ACK")).toEqual([]);
+    finish();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(host.sent().at(-1)).toEqual({ type: "BRIXEL_DESTROY_ACK", payload: { runId: "run-1" } });
+  });
+
+  it("acknowledges after destroyTimeoutMs when onDestroy doesn't finish", async () => {
+    const { host } = start({ onDestroy: () => new Promise<void>(() => {}), destroyTimeoutMs: 1_000 });
+    host.init();
+
+    host.send("BRIXEL_DESTROY", { runId: "run-1" });
+    await vi.advanceTimersByTimeAsync(999);
+    expect(host.sent("BRIXEL_DESTROY_ACK")).toEqual([]);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(host.sent("BRIXEL_DESTROY_ACK")).toHaveLength(1);
+  });
+
+  it("acknowledges when onDestroy throws", async () => {
+    const consoleError = vi.spyOn(console, "error").mockImplementation(() => {});
+    const { host } = start({
+      onDestroy: () => {
+        throw new Error("Boom");
+      },
+    });
+    host.init();
+
+    host.send("BRIXEL_DESTROY", { runId: "run-1" });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(host.sent("BRIXEL_DESTROY_ACK")).toHaveLength(1);
+    expect(consoleError).toHaveBeenCalledWith("[BrixelSDK] onDestroy failed:", expect.any(Error));
+  });
+
+  it("stops heartbeats and ignores later actions and messages", async () => {
+    const { host, client } = start({ heartbeat: { intervalMs: 1_000 } });
+    host.init();
+    const onInputs = vi.fn();
+    client.on("inputs", onInputs);
+    host.send("BRIXEL_DESTROY", { runId: "run-1" });
+    await vi.advanceTimersByTimeAsync(0);
+    const sentCount = host.sent().length;
+
+    client.log("info", "Too late");
+    client.saveDraft("note", "Too late");
+    host.send("BRIXEL_UPDATE_INPUTS", { runId: "run-1", inputs: { name: "Grace" }, revision: 1 });
+    await vi.advanceTimersByTimeAsync(10_000);
+    expect(host.sent()).toHaveLength(sentCount);
+    expect(onInputs).not.toHaveBeenCalled();
+  });
+});
+
+describe("BrixelTaskClient file requests", () => {
+  const context = { ...mockContext, capabilities: { ...mockContext.capabilities, fileUpload: true, clipboard: true } };
+  const bytes = (text: string) => new TextEncoder().encode(text).buffer;
+  const file = (name: string, size: number) => ({ name, type: "text/plain", size, lastModified: 1 });
+  // jsdom's Blob has no text()
+  const read = (blob: Blob) =>
+    new Promise<string>((resolve) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.readAsText(blob);
+    });
+
+  function request(options: BrixelTaskClientOptions = {}) {
+    const { host, client } = start({ requestTimeoutMs: 1_000, ...options });
+    host.init({ context });
+    const files = client.requestFiles({ multiple: true });
+    const [{ payload }] = host.sent("BRIXEL_FILE_REQUEST");
+    const reply = (type: string, rest: Record<string, unknown>) =>
+      host.send(type, { runId: "run-1", requestId: payload.requestId, ...rest });
+    return { files, reply, payload };
+  }
+
+  it("reassembles the chunks of each file", async () => {
+    const { files, reply, payload } = request();
+    expect(payload).toMatchObject({ multiple: true });
+
+    reply("BRIXEL_FILE_RESULT", { files: [file("a.txt", 11), file("empty.txt", 0), file("b.txt", 3)] });
+    reply("BRIXEL_FILE_CHUNK", { index: 0, offset: 0, data: bytes("hello ") });
+    reply("BRIXEL_FILE_CHUNK", { index: 2, offset: 0, data: bytes("abc") });
+    reply("BRIXEL_FILE_CHUNK", { index: 0, offset: 6, data: bytes("world") });
+
+    const received = await files;
+    expect(received.map(({ name, type, size }) => ({ name, type, size }))).toEqual([
+      { name: "a.txt", type: "text/plain", size: 11 },
+      { name: "empty.txt", type: "text/plain", size: 0 },
+      { name: "b.txt", type: "text/plain", size: 3 },
+    ]);
+    const reading = Promise.all(received.map(read));
+    // FileReader reports on a (fake) timer
+    await vi.runAllTimersAsync();
+    await expect(reading).resolves.toEqual(["hello world", "", "abc"]);
+  });
+
+  it("resolves with no files when the user dismisses the picker", async () => {
+    const { files, reply } = request();
+    reply("BRIXEL_FILE_RESULT", { files: [] });
+    await expect(files).resolves.toEqual([]);
+  });
+
+  it("fails on a chunk that doesn't continue its file", async () => {
+    const { files, reply } = request();
+    reply("BRIXEL_FILE_RESULT", { files: [file("a.txt", 11)] });
+    reply("BRIXEL_FILE_CHUNK", { index: 0, offset: 6, data: bytes("world") });
+    await expect(files).rejects.toMatchObject({ capability: "requestFiles", code: "ABORTED" });
+  });
+
+  it("fails when a file exceeds maxSizeBytes", async () => {
+    const { host, client } = start({});
+    host.init({ context });
+    const files = client.requestFiles({ maxSizeBytes: 10 });
+    const [{ payload }] = host.sent("BRIXEL_FILE_REQUEST");
+    host.send("BRIXEL_FILE_RESULT", { runId: "run-1", requestId: payload.requestId, files: [file("a.txt", 11)] });
+    await expect(files).rejects.toMatchObject({ code: "TOO_LARGE" });
+  });
+
+  it("waits for the picker, then times out when the transfer stalls", async () => {
+    const { files, reply } = request();
+    const onSettled = vi.fn();
+    files.then(onSettled, onSettled);
+
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(onSettled).not.toHaveBeenCalled();
+
+    // Each chunk restarts the timeout
+    reply("BRIXEL_FILE_RESULT", { files: [file("a.txt", 11)] });
+    await vi.advanceTimersByTimeAsync(999);
+    reply("BRIXEL_FILE_CHUNK", { index: 0, offset: 0, data: bytes("hello ") });
+    await vi.advanceTimersByTimeAsync(999);
+    expect(onSettled).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1);
+    await expect(files).rejects.toMatchObject({ code: "TIMEOUT", message: "The host did not answer within 1000ms" });
+  });
+
+  it("times out other requests after requestTimeoutMs", async () => {
+    const { host, client } = start({ requestTimeoutMs: 1_000 });
+    host.init({ context });
+    const copied = client.copyToClipboard("Hi");
+    const onSettled = vi.fn();
+    copied.then(onSettled, onSettled);
+
+    await vi.advanceTimersByTimeAsync(999);
+    expect(onSettled).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(1);
+    await expect(copied).rejects.toMatchObject({ capability: "copyToClipboard", code: "TIMEOUT" });
+  });
+
+  it("fails at once when the host doesn't support file upload", async () => {
+    const { host, client } = start({});
+    host.init();
+    await expect(client.requestFiles()).rejects.toMatchObject({ code: "UNSUPPORTED" });
+    expect(host.sent("BRIXEL_FILE_REQUEST")).toEqual([]);
+  });
+});
+
+describe("BrixelTaskClient subtasks", () => {
+  const context = {
+    ...mockContext,
+    conversationId: "conv-1",
+    capabilities: { ...mockContext.capabilities, subtasks: true },
+  };
+
+  function open(contextOverrides: Record<string, unknown> = {}) {
+    const { host, client } = start({ requestTimeoutMs: 1_000 });
+    host.init({ context: { ...context, ...contextOverrides } });
+    const outcome = client.openSubtask({ taskUuid: "pick-address", inputs: { city: "Paris" } });
+    const answer = (rest: Record<string, unknown>) =>
+      host.send("BRIXEL_SUBTASK_RESULT", {
+        runId: "run-1",
+        requestId: host.sent("BRIXEL_OPEN_SUBTASK")[0].payload.requestId,
+        ...rest,
+      });
+    return { host, client, outcome, answer };
+  }
+
+  it("asks the host to open the child in the same conversation, without a timeout", async () => {
+    const { host, outcome, answer } = open();
+    expect(host.sent("BRIXEL_OPEN_SUBTASK")[0].payload).toMatchObject({
+      taskUuid: "pick-address",
+      inputs: { city: "Paris" },
+      conversationId: "conv-1",
+    });
+
+    await vi.advanceTimersByTimeAsync(60_000);
+    answer({ outcome: { status: "completed", output: { street: "Rue de Rivoli" } } });
+    await expect(outcome).resolves.toEqual({ status: "completed", output: { street: "Rue de Rivoli" } });
+  });
+
+  it("resolves with the child's cancellation", async () => {
+    const { outcome, answer } = open();
+    answer({ outcome: { status: "cancelled", reason: "Closed" } });
+    await expect(outcome).resolves.toEqual({ status: "cancelled", reason: "Closed" });
+  });
+
+  it("fails when the host can't open the child", async () => {
+    const { outcome, answer } = open();
+    answer({ error: { code: "DEPTH_EXCEEDED", message: "Too deep" } });
+    await expect(outcome).rejects.toMatchObject({ capability: "openSubtask", code: "DEPTH_EXCEEDED" });
+  });
+
+  it("fails at once past maxSubtaskDepth", async () => {
+    const { host, outcome } = open({ subtaskDepth: 2, maxSubtaskDepth: 2 });
+    await expect(outcome).rejects.toMatchObject({
+      code: "DEPTH_EXCEEDED",
+      message: "Subtasks can't be nested more than 2 levels deep",
+    });
+    expect(host.sent("BRIXEL_OPEN_SUBTASK")).toEqual([]);
+  });
+
+  it("fails with ABORTED when the task is destroyed while the child is open", async () => {
+    const { host, outcome } = open();
+    host.send("BRIXEL_DESTROY", { runId: "run-1" });
+    await expect(outcome).rejects.toMatchObject({ code: "ABORTED" });
+  });
+});
+
+describe("BrixelTaskClient context updates", () => {
+  const context = {
+    ...mockContext,
+    apiToken: "expired",
+    apiBaseUrl: "https://api.test",
+    capabilities: { ...mockContext.capabilities, tokenRefresh: true },
+  };
+
+  /** An API answering 401 to any token but "fresh" */
+  function stubApi() {
+    const fetch = vi.fn(async (_url: string, init: RequestInit) =>
+      (init.headers as Record<string, string>).Authorization === "Bearer fresh"
+        ? Response.json({ answer: 42 })
+        : Response.json({ code: "UNAUTHORIZED", message: "Token expired" }, { status: 401 })
+    );
+    vi.stubGlobal("fetch", fetch);
+    teardown.push(() => vi.unstubAllGlobals());
+    return fetch;
+  }
+
+  function connectEmbedded(contextOverrides: Record<string, unknown> = {}) {
+    const host = embed();
+    const client = new BrixelTaskClient<Inputs>();
+    client.start();
+    teardown.push(() => client.stop());
+    host.init({ context: { ...context, ...contextOverrides } });
+    /** Answer the latest BRIXEL_REQUEST_TOKEN */
+    const issueToken = async (apiToken: string) => {
+      await vi.waitFor(() => expect(host.sent("BRIXEL_REQUEST_TOKEN")).not.toEqual([]));
+      const [{ payload }] = host.sent("BRIXEL_REQUEST_TOKEN").slice(-1);
+      host.send("BRIXEL_TOKEN_RESULT", { runId: "run-1", requestId: payload.requestId, apiToken });
+    };
+    return { host, client, issueToken };
+  }
+
+  it("retries executeTask once with a fresh token after a 401", async () => {
+    const fetch = stubApi();
+    const { client, issueToken } = connectEmbedded();
+
+    const response = client.executeTask({ taskUuid: "task-1", inputs: {} });
+    await issueToken("fresh");
+    await expect(response).resolves.toEqual({ success: true, data: { answer: 42 } });
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(client.getSnapshot().context?.apiToken).toBe("fresh");
+  });
+
+  it("returns the second 401 instead of refreshing again", async () => {
+    stubApi();
+    const { host, client, issueToken } = connectEmbedded();
+
+    const response = client.executeTask({ taskUuid: "task-1", inputs: {} });
+    await issueToken("also-expired");
+    await expect(response).resolves.toMatchObject({ success: false, error: { code: "UNAUTHORIZED" } });
+    expect(host.sent("BRIXEL_REQUEST_TOKEN")).toHaveLength(1);
+  });
+
+  it("returns the 401 when the host doesn't refresh tokens", async () => {
+    const fetch = stubApi();
+    const { host, client } = connectEmbedded({ capabilities: mockContext.capabilities });
+
+    await expect(client.executeTask({ taskUuid: "task-1", inputs: {} })).resolves.toMatchObject({
+      success: false,
+      error: { code: "UNAUTHORIZED" },
+    });
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(host.sent("BRIXEL_REQUEST_TOKEN")).toEqual([]);
+  });
+
+  it("shares one token request between concurrent callers", async () => {
+    const { host, client, issueToken } = connectEmbedded();
+
+    const tokens = Promise.all([client.refreshToken(), client.refreshToken()]);
+    await issueToken("fresh");
+    await expect(tokens).resolves.toEqual(["fresh", "fresh"]);
+    expect(host.sent("BRIXEL_REQUEST_TOKEN")).toHaveLength(1);
+  });
+
+  it("merges BRIXEL_UPDATE_CONTEXT into the context, capability by capability", () => {
+    const { host, client } = connectEmbedded();
+    const onContext = vi.fn();
+    client.on("context", onContext);
+
+    host.send("BRIXEL_UPDATE_CONTEXT", {
+      runId: "run-1",
+      context: { runId: "run-2", locale: "fr-FR", capabilities: { clipboard: true } },
+    });
+    const updated = client.getSnapshot().context;
+    expect(updated).toMatchObject({ runId: context.runId, locale: "fr-FR", apiToken: "expired" });
+    expect(updated?.capabilities).toEqual({ ...context.capabilities, clipboard: true });
+    expect(onContext).toHaveBeenCalledWith(updated);
+  });
+});
+
+describe("BrixelTaskClient input validation", () => {
+  const inputSchema = {
+    type: "object",
+    properties: { name: { type: "string", minLength: 1 } },
+    required: ["name"],
+  };
+
+  it("keeps the run open after invalid inputs, and completes once they are corrected", async () => {
+    const onError = vi.fn();
+    const { host, client } = connect({ inputSchema }, { onError });
+    teardown.push(() => client.stop(), () => void host.destroy());
+
+    await waitForStatus(client, "error");
+    expect(client.getSnapshot().error?.code).toBe("INVALID_INPUTS");
+    await vi.waitFor(() => expect(onError).toHaveBeenCalledWith(expect.objectContaining({ fatal: false })));
+
+    host.updateInputs({ name: "Ada" });
+    await waitForStatus(client, "ready");
+    expect(client.getSnapshot().validationErrors.inputs).toEqual([]);
+
+    await expect(client.complete({ done: true })).resolves.toEqual({ status: "acknowledged" });
+    await expect(host.result).resolves.toEqual({ status: "completed", output: { done: true }, port: undefined });
+  });
+});
+
+describe("BrixelTaskClient input updates", () => {
+  it("drops fields missing from replaced inputs", async () => {
+    const { host, client } = connect({}, { inputs: { name: "Ada", note: "draft" } as Inputs });
+    teardown.push(() => client.stop(), () => void host.destroy());
+    await waitForStatus(client, "ready");
+
+    host.updateInputs({ name: "Grace" });
+    await vi.waitFor(() => expect(client.getSnapshot().inputs).toEqual({ name: "Grace", note: "draft" }));
+
+    host.replaceInputs({ name: "Grace" });
+    await vi.waitFor(() => expect(client.getSnapshot().inputs).toEqual({ name: "Grace" }));
+  });
+
+  it("passes the full inputs to onInputsUpdate for merges and patches", async () => {
+    const onInputsUpdate = vi.fn();
+    const { host, client } = connect({ onInputsUpdate }, { inputs: { name: "Ada", note: "draft" } as Inputs });
+    teardown.push(() => client.stop(), () => void host.destroy());
+    await waitForStatus(client, "ready");
+
+    host.updateInputs({ name: "Grace" });
+    await vi.waitFor(() => expect(onInputsUpdate).toHaveBeenLastCalledWith({ name: "Grace", note: "draft" }));
+
+    host.patchInputs([{ op: "replace", path: "/note", value: "final" }]);
+    await vi.waitFor(() => expect(onInputsUpdate).toHaveBeenLastCalledWith({ name: "Grace", note: "final" }));
+  });
+});
+
+describe("BrixelTaskClient settlement", () => {
+  const init = (payload: Record<string, unknown>) => {
+    window.dispatchEvent(
+      new MessageEvent("message", {
+        data: {
+          type: "BRIXEL_INIT",
+          payload: { runId: "run-1", inputs: {}, context: mockContext, renderMode: "interaction", ...payload },
+        },
+        origin: HOST_ORIGIN,
+        source: window,
+      })
+    );
+  };
+  const sent = (type: string) =>
+    vi.mocked(window.postMessage).mock.calls.filter(([message]) => (message as { type: string }).type === type);
+
+  it("re-sends COMPLETE while a host that advertises acknowledgements hasn't answered", async () => {
+    vi.spyOn(window, "postMessage").mockImplementation(() => {});
+    const client = new BrixelTaskClient<Inputs>({ ackRetryIntervalMs: 10, ackTimeoutMs: 50 });
+    client.start();
+    teardown.push(() => client.stop());
+    init({ settlementAcks: true });
+
+    await expect(client.complete({ done: true })).resolves.toEqual({ status: "unacknowledged" });
+    expect(sent("BRIXEL_COMPLETE").length).toBeGreaterThan(1);
+  });
+
+  it("sends COMPLETE once to hosts that don't advertise acknowledgements", async () => {
+    vi.spyOn(window, "postMessage").mockImplementation(() => {});
+    const client = new BrixelTaskClient<Inputs>({ ackRetryIntervalMs: 10, ackTimeoutMs: 50 });
+    client.start();
+    teardown.push(() => client.stop());
+    init({});
+
+    await expect(client.complete({ done: true })).resolves.toEqual({ status: "unacknowledged" });
+    await new Promise((resolve) => setTimeout(resolve, 60));
+    expect(sent("BRIXEL_COMPLETE")).toHaveLength(1);
+    expect(client.getSnapshot().status).toBe("completed");
+  });
+});
+
+describe("BrixelTaskClient auto-resize", () => {
+  const manifest: UITaskManifest = {
+    id: "survey",
+    version: "1.0.0",
+    type: "ui_component",
+    name: "Survey",
+    renderMode: "interaction",
+    entry: "index.html",
+    ui: { minHeight: 100, maxHeight: 600, preferredWidth: "full" },
+  };
+
+  /** An element of `height` px, and a ResizeObserver stub reporting its changes */
+  function observe(initialHeight: number) {
+    let height = initialHeight;
+    const element = document.createElement("div");
+    Object.defineProperty(element, "scrollHeight", { get: () => height });
+
+    const callbacks: (() => void)[] = [];
+    vi.stubGlobal(
+      "ResizeObserver",
+      class {
+        constructor(callback: () => void) {
+          callbacks.push(callback);
+        }
+        observe() {}
+        disconnect() {}
+      }
+    );
+    return {
+      element,
+      resize(next: number) {
+        height = next;
+        callbacks.forEach((callback) => callback());
+      },
+    };
+  }
+
+  function start(options: BrixelTaskClientOptions) {
+    vi.useFakeTimers();
+    const host = embed();
+    const client = new BrixelTaskClient<Inputs>(options);
+    client.start();
+    teardown.push(() => client.stop(), () => vi.useRealTimers(), () => vi.unstubAllGlobals());
+    host.init();
+    return host.sent;
+  }
+
+  const heights = (sent: ReturnType<typeof start>) =>
+    sent("BRIXEL_RESIZE").map((message) => message.payload.height);
+
+  it("reports the height on INIT, then at most once per throttleMs", () => {
+    const { element, resize } = observe(200);
+    const sent = start({ autoResize: { element, throttleMs: 100 } });
+    expect(sent("BRIXEL_RESIZE")).toEqual([{ type: "BRIXEL_RESIZE", payload: { runId: "run-1", height: 200 } }]);
+
+    resize(250);
+    resize(300);
+    vi.advanceTimersByTime(99);
+    expect(heights(sent)).toEqual([200]);
+    vi.advanceTimersByTime(1);
+    expect(heights(sent)).toEqual([200, 300]);
+  });
+
+  it("only reports heights that changed", () => {
+    const { element, resize } = observe(200);
+    const sent = start({ autoResize: { element, throttleMs: 100 } });
+
+    vi.advanceTimersByTime(100);
+    resize(200);
+    vi.advanceTimersByTime(100);
+    expect(heights(sent)).toEqual([200]);
+  });
+
+  it("clamps to the manifest limits, overridden by min and max", () => {
+    const { element, resize } = observe(20);
+    const sent = start({ manifest, autoResize: { element, throttleMs: 0, max: 400 } });
+
+    vi.advanceTimersByTime(0);
+    resize(1_000);
+    vi.advanceTimersByTime(0);
+    resize(300);
+    expect(heights(sent)).toEqual([100, 400, 300]);
+  });
+
+  it("doesn't observe anything with autoResize: false", () => {
+    const { resize } = observe(200);
+    const sent = start({ autoResize: false });
+    resize(300);
+    vi.advanceTimersByTime(1_000);
+    expect(sent("BRIXEL_RESIZE")).toEqual([]);
+  });
+});
+
+describe("BrixelTaskClient complete types", () => {
+  type Output = OutputPorts<{ approved: { comment?: string }; rejected: { reason: string } }>;
+
+  // Only type-checked: the calls never run
+  it("requires a port for outputs with declared ports", () => {
+    const client = new BrixelTaskClient<Inputs, Output>();
+    const calls = [
+      () => client.complete({ reason: "Over budget" }, { port: "rejected" }),
+      // @ts-expect-error the options are required
+      () => client.complete({ reason: "Over budget" }),
+      // @ts-expect-error the port is required
+      () => client.complete({ reason: "Over budget" }, {}),
+      // @ts-expect-error the output doesn't match the port
+      () => client.complete({ comment: "Fine" }, { port: "rejected" }),
+    ];
+    expect(calls).toHaveLength(4);
+  });
+
+  it("keeps the options optional without declared ports", () => {
+    const client = new BrixelTaskClient<Inputs, { done: boolean }>();
+    const calls = [() => client.complete({ done: true }), () => client.complete({ done: true }, {})];
+    expect(calls).toHaveLength(2);
+  });
+});
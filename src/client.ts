@@ -0,0 +1,1775 @@
+import type {
+  BrixelCapability,
+  BrixelContext,
+  BrixelTaskActions,
+  BrixelTaskClientEvents,
+  BrixelTaskClientOptions,
+  BrixelTaskOutcome,
+  BrixelTaskSnapshot,
+  CapabilityErrorCode,
+  CapabilityRequest,
+  CompleteArgs,
+  ConfirmOptions,
+  ConnectionState,
+  ExecuteTaskResponse,
+  FileChunkMessage,
+  FileRequestOptions,
+  FileResultMessage,
+  HostToIframeMessage,
+  JsonSchema,
+  NotifyOptions,
+  OutputPortName,
+  PortOutput,
+  SchemaValidationError,
+  SecurityViolation,
+  SettlementResult,
+  SubtaskOptions,
+  TaskErrorCode,
+  TaskExecution,
+} from "./types";
+import { createExecuteTask } from "./executeTask";
+import { executeTaskAsync } from "./executeTaskAsync";
+import { isOriginAllowed, toTargetOrigin } from "./security";
+import { validateSchema } from "./schema";
+import { createRequestId } from "./ids";
+import { BrixelCapabilityError, serializeError } from "./errors";
+import { mergeContext } from "./context";
+import { applyDesignTokens, resolveTheme, watchSystemTheme } from "./theme";
+import { applyJsonPatch, deepMerge } from "./patch";
+import { createFileAssembler, describeFile, sendFileChunks } from "./files";
+import type { FileAssembler } from "./files";
+import { showConfirmDialog, showToast } from "./fallbackUi";
+
+export const SDK_VERSION = "1.0.0";
+
+/**
+ * Message types the host may send to the iframe. Anything else (including our own
+ * messages echoed back in standalone mode) is ignored before security checks.
+ */
+const HOST_MESSAGE_TYPES: ReadonlySet<string> = new Set<HostToIframeMessage["type"]>([
+  "BRIXEL_INIT",
+  "BRIXEL_UPDATE_INPUTS",
+  "BRIXEL_DESTROY",
+  "BRIXEL_UPDATE_THEME",
+  "BRIXEL_UPDATE_LOCALE",
+  "BRIXEL_COMPLETE_ACK",
+  "BRIXEL_COMPLETE_REJECTED",
+  "BRIXEL_CANCEL_ACK",
+  "BRIXEL_CANCEL_REJECTED",
+  "BRIXEL_PONG",
+  "BRIXEL_CAPABILITY_RESULT",
+  "BRIXEL_FILE_RESULT",
+  "BRIXEL_FILE_CHUNK",
+  "BRIXEL_DOWNLOAD_RESULT",
+  "BRIXEL_CONFIRM_RESULT",
+  "BRIXEL_SUBTASK_RESULT",
+  "BRIXEL_UPDATE_CONTEXT",
+  "BRIXEL_TOKEN_RESULT",
+  "BRIXEL_PATCH_INPUTS",
+]);
+
+const DEFAULT_DESTROY_TIMEOUT_MS = 3_000;
+const DEFAULT_READY_RETRY_INTERVAL_MS = 250;
+const DEFAULT_READY_RETRY_MAX_INTERVAL_MS = 5_000;
+const DEFAULT_INIT_TIMEOUT_MS = 30_000;
+const DEFAULT_HEARTBEAT_INTERVAL_MS = 5_000;
+const DEFAULT_HEARTBEAT_TIMEOUT_MS = 15_000;
+
+const DEFAULT_ACK_TIMEOUT_MS = 10_000;
+const DEFAULT_ACK_RETRY_INTERVAL_MS = 1_000;
+const DEFAULT_REQUEST_TIMEOUT_MS = 10_000;
+const DEFAULT_MAX_SUBTASK_DEPTH = 3;
+const DEFAULT_RESIZE_THROTTLE_MS = 100;
+const DEFAULT_DRAFT_DEBOUNCE_MS = 500;
+const DEFAULT_DRAFT_MAX_BYTES = 64 * 1024;
+
+type Listener<T> = (payload: T) => void;
+
+/** A COMPLETE / CANCEL waiting for the host's acknowledgement */
+interface PendingSettlement {
+  action: "complete" | "cancel";
+  requestId: string;
+  finish: (result: SettlementResult) => void;
+}
+
+type RequestError = { code: CapabilityErrorCode; message: string };
+
+/** A capability, file, download, confirm or subtask request waiting for the host's answer */
+interface PendingRequest {
+  resolve: (value: unknown) => void;
+  fail: (error: RequestError) => void;
+  /** (Re)start the answer timeout, e.g. after each file chunk */
+  touch: () => void;
+  /** Limit checked against the files announced by BRIXEL_FILE_RESULT */
+  maxSizeBytes?: number;
+  /** Reassembles the BRIXEL_FILE_CHUNKs of a requestFiles call */
+  files?: FileAssembler;
+}
+
+/**
+ * Signal aborted when any of the given signals aborts. `dispose` detaches the
+ * listeners once the operation is over, so long-lived signals don't accumulate them.
+ */
+function combineSignals(...signals: Array<AbortSignal | undefined>) {
+  const controller = new AbortController();
+  const cleanups: Array<() => void> = [];
+
+  for (const signal of signals) {
+    if (!signal) continue;
+    if (signal.aborted) {
+      controller.abort(signal.reason);
+      break;
+    }
+    const onAbort = () => controller.abort(signal.reason);
+    signal.addEventListener("abort", onAbort, { once: true });
+    cleanups.push(() => signal.removeEventListener("abort", onAbort));
+  }
+
+  return {
+    signal: controller.signal,
+    dispose: () => cleanups.forEach((cleanup) => cleanup()),
+  };
+}
+
+/**
+ * Height the element needs: its border box or its overflowing content, whichever
+ * is taller, plus its vertical margins (`contentRect` leaves out padding, borders
+ * and margins)
+ */
+function measureHeight(element: Element): number {
+  const { marginTop, marginBottom } = window.getComputedStyle(element);
+  const height = Math.max(element.getBoundingClientRect().height, element.scrollHeight);
+  return Math.ceil(height + (parseFloat(marginTop) || 0) + (parseFloat(marginBottom) || 0));
+}
+
+/**
+ * `sessionStorage` key of the drafts, when not embedded
+ */
+function draftStorageKey(): string {
+  return `brixel:drafts:${window.location.pathname}`;
+}
+
+function readStoredDrafts(): Record<string, unknown> {
+  try {
+    const stored = JSON.parse(window.sessionStorage.getItem(draftStorageKey()) ?? "{}");
+    return typeof stored === "object" && stored !== null && !Array.isArray(stored) ? stored : {};
+  } catch {
+    // Storage blocked or corrupted: start without drafts
+    return {};
+  }
+}
+
+function writeStoredDrafts(json: string | null): void {
+  try {
+    if (json === null) {
+      window.sessionStorage.removeItem(draftStorageKey());
+    } else {
+      window.sessionStorage.setItem(draftStorageKey(), json);
+    }
+  } catch {
+    // Storage blocked or full: drafts only live in memory
+  }
+}
+
+/**
+ * Check if running inside an iframe
+ */
+function isInIframe(): boolean {
+  try {
+    return window.self !== window.top;
+  } catch {
+    return true;
+  }
+}
+
+/**
+ * Framework-agnostic UI Task client
+ *
+ * Owns the iframe side of the protocol: the READY/INIT handshake, message security,
+ * schema validation, status transitions and auto-resize. State is exposed as an
+ * immutable snapshot plus events, so it can back any UI framework
+ * (`useBrixelTask` is a thin React wrapper around it).
+ *
+ * @example
+ * ```ts
+ * import { BrixelTaskClient } from "@brixel/ui-task-sdk/core";
+ *
+ * const client = new BrixelTaskClient<Inputs, Output>({ debug: true });
+ *
+ * client.on("init", ({ inputs }) => render(inputs));
+ * client.on("inputs", (inputs) => render(inputs));
+ *
+ * client.start();
+ *
+ * submitButton.onclick = () => client.complete({ selectedOption: "A" });
+ * ```
+ */
+export class BrixelTaskClient<TInputs = unknown, TOutput = unknown>
+  implements BrixelTaskActions<TOutput>
+{
+  /** Whether running inside Brixel iframe */
+  readonly isEmbedded: boolean;
+
+  private options: BrixelTaskClientOptions;
+  private snapshot: BrixelTaskSnapshot<TInputs> = {
+    inputs: null,
+    context: null,
+    resolvedTheme: resolveTheme("system"),
+    status: "initializing",
+    error: null,
+    connection: "connecting",
+    renderMode: null,
+    runId: null,
+    validationErrors: { inputs: [], output: [] },
+    rejection: null,
+  };
+
+  private listeners = new Map<keyof BrixelTaskClientEvents<TInputs>, Set<Listener<unknown>>>();
+  private parentWindow: Window | null = null;
+  private started = false;
+  private hasCompleted = false;
+  private hasInvalidInputs = false;
+  /** The host advertised `settlementAcks` in INIT: COMPLETE / CANCEL are re-sent until answered */
+  private hostAcknowledges = false;
+  /** Host origin of the first valid INIT, used to scope incoming/outgoing messages */
+  private hostOrigin: string | null = null;
+  private resizeObserver: ResizeObserver | null = null;
+  private resizeTarget: Element | null = null;
+  /** Throttles BRIXEL_RESIZE; `resizeQueued` asks for one more measure once it ends */
+  private resizeTimer: ReturnType<typeof setTimeout> | null = null;
+  private resizeQueued = false;
+  /** Last height sent to the host, so unchanged heights aren't re-sent */
+  private lastHeight: number | "auto" | null = null;
+  private pendingSettlement: PendingSettlement | null = null;
+  private pendingRequests = new Map<string, PendingRequest>();
+  /** Open `confirm` fallback dialogs, closed on stop or destroy */
+  private fallbackDialogs = new Set<AbortController>();
+  private readyTimer: ReturnType<typeof setTimeout> | null = null;
+  private initTimer: ReturnType<typeof setTimeout> | null = null;
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  private lastPongAt = 0;
+  private partialSequence = 0;
+  /** Revision of the current inputs, null if the host doesn't number them */
+  private inputsRevision: number | null = null;
+  /** When BRIXEL_REQUEST_INPUTS was last sent, 0 once the resync arrived */
+  private resyncRequestedAt = 0;
+  /** Drafts by key, saved with BRIXEL_SAVE_STATE (or to sessionStorage in standalone mode) */
+  private drafts: Record<string, unknown> = {};
+  /** Removes the OS theme listener */
+  private unwatchSystemTheme: (() => void) | null = null;
+  /** Custom properties set by `applyDesignTokens` */
+  private appliedTokens: string[] = [];
+  private draftTimer: ReturnType<typeof setTimeout> | null = null;
+  /** BRIXEL_REQUEST_TOKEN in flight, shared by concurrent callers */
+  private tokenRequest: Promise<string> | null = null;
+  /** Aborts in-flight executeTask requests on destroy */
+  private abortController = new AbortController();
+
+  constructor(options: BrixelTaskClientOptions = {}) {
+    this.options = options;
+    this.isEmbedded = isInIframe();
+    if (!this.isEmbedded) this.drafts = readStoredDrafts();
+  }
+
+  // ==========================================================================
+  // Lifecycle
+  // ==========================================================================
+
+  /**
+   * Replace the options (callbacks, schemas, origins) without restarting the client
+   */
+  setOptions(options: BrixelTaskClientOptions): void {
+    this.options = options;
+  }
+
+  /**
+   * Start listening to the host and send BRIXEL_READY
+   */
+  start(): void {
+    if (this.started || this.snapshot.status === "destroyed") return;
+    this.started = true;
+
+    // Use window itself in standalone mode for dev tools
+    this.parentWindow = this.isEmbedded ? window.parent : window;
+
+    if (!this.isEmbedded) {
+      this.debugLog("Not in iframe, SDK will work in standalone mode (dev tools compatible)");
+    }
+
+    window.addEventListener("message", this.handleMessage);
+    // Save pending drafts before the iframe reloads
+    window.addEventListener("pagehide", this.flushDrafts);
+    this.unwatchSystemTheme = watchSystemTheme(() => this.syncTheme());
+    this.syncTheme();
+
+    if (this.options.captureGlobalErrors) {
+      window.addEventListener("error", this.handleGlobalError);
+      window.addEventListener("unhandledrejection", this.handleUnhandledRejection);
+    }
+
+    // Signal ready to receive INIT (re-sent with backoff until INIT arrives)
+    this.sendReady(this.options.readyRetryIntervalMs ?? DEFAULT_READY_RETRY_INTERVAL_MS);
+
+    if (this.snapshot.runId) {
+      this.startAutoResize();
+      this.startHeartbeat();
+    } else {
+      this.startInitTimeout();
+    }
+
+    this.debugLog("SDK initialized, READY sent");
+  }
+
+  /**
+   * Stop listening to the host and release observers
+   */
+  stop(): void {
+    if (!this.started) return;
+    this.started = false;
+
+    window.removeEventListener("message", this.handleMessage);
+    window.removeEventListener("pagehide", this.flushDrafts);
+    this.unwatchSystemTheme?.();
+    this.unwatchSystemTheme = null;
+    this.removeGlobalErrorListeners();
+    if (this.draftTimer) this.flushDrafts();
+    this.stopAutoResize();
+    this.stopHandshake();
+    this.stopHeartbeat();
+    this.pendingSettlement?.finish({ status: "unacknowledged" });
+    this.abortRequests("The task was stopped");
+  }
+
+  // ==========================================================================
+  // Handshake & heartbeat
+  // ==========================================================================
+
+  private sendReady(nextDelayMs: number): void {
+    this.postToParent({
+      type: "BRIXEL_READY",
+      payload: { version: SDK_VERSION },
+    });
+
+    // The host's listener may be attached after our first READY: retry until INIT
+    const maxDelayMs = this.options.readyRetryMaxIntervalMs ?? DEFAULT_READY_RETRY_MAX_INTERVAL_MS;
+    this.readyTimer = setTimeout(() => {
+      this.debugLog("No INIT yet, re-sending READY");
+      this.sendReady(Math.min(nextDelayMs * 2, maxDelayMs));
+    }, Math.min(nextDelayMs, maxDelayMs));
+  }
+
+  private startInitTimeout(): void {
+    const timeoutMs = this.options.initTimeoutMs ?? (this.isEmbedded ? DEFAULT_INIT_TIMEOUT_MS : 0);
+    if (timeoutMs <= 0 || this.initTimer) return;
+
+    this.initTimer = setTimeout(() => {
+      this.initTimer = null;
+      if (this.snapshot.runId) return;
+
+      this.debugLog(`No INIT received after ${timeoutMs}ms`);
+      this.setState({
+        status: "error",
+        error: {
+          code: "INIT_TIMEOUT",
+          message: `The host did not initialize the task within ${timeoutMs}ms`,
+        },
+      });
+    }, timeoutMs);
+  }
+
+  private stopHandshake(): void {
+    if (this.readyTimer) clearTimeout(this.readyTimer);
+    if (this.initTimer) clearTimeout(this.initTimer);
+    this.readyTimer = null;
+    this.initTimer = null;
+  }
+
+  private startHeartbeat(): void {
+    const { heartbeat } = this.options;
+    if (!heartbeat || this.heartbeatTimer) return;
+
+    const intervalMs = heartbeat.intervalMs ?? DEFAULT_HEARTBEAT_INTERVAL_MS;
+    const timeoutMs = heartbeat.timeoutMs ?? DEFAULT_HEARTBEAT_TIMEOUT_MS;
+    this.lastPongAt = Date.now();
+
+    this.heartbeatTimer = setInterval(() => {
+      const { runId } = this.snapshot;
+      if (!runId) return;
+
+      if (this.snapshot.connection === "connected" && Date.now() - this.lastPongAt > timeoutMs) {
+        this.debugLog(`No PONG for ${timeoutMs}ms, host considered lost`);
+        this.setConnection("lost");
+      }
+
+      this.postToParent({
+        type: "BRIXEL_PING",
+        payload: { runId, pingId: createRequestId() },
+      });
+    }, intervalMs);
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer) clearInterval(this.heartbeatTimer);
+    this.heartbeatTimer = null;
+  }
+
+  private setConnection(connection: ConnectionState): void {
+    if (this.snapshot.connection === connection) return;
+    this.setState({ connection });
+    this.emit("connection", connection);
+  }
+
+  // ==========================================================================
+  // State
+  // ==========================================================================
+
+  /**
+   * Current state. The same object is returned until something changes.
+   */
+  getSnapshot = (): BrixelTaskSnapshot<TInputs> => this.snapshot;
+
+  /**
+   * Subscribe to any state change (shape expected by `useSyncExternalStore`)
+   */
+  subscribe = (listener: () => void): (() => void) => this.on("change", listener);
+
+  /**
+   * Listen to a client event
+   *
+   * @returns A function removing the listener
+   */
+  on<K extends keyof BrixelTaskClientEvents<TInputs>>(
+    event: K,
+    listener: Listener<BrixelTaskClientEvents<TInputs>[K]>
+  ): () => void {
+    let set = this.listeners.get(event);
+    if (!set) {
+      set = new Set();
+      this.listeners.set(event, set);
+    }
+
+    const entry = listener as Listener<unknown>;
+    set.add(entry);
+    return () => {
+      set.delete(entry);
+    };
+  }
+
+  private emit<K extends keyof BrixelTaskClientEvents<TInputs>>(
+    event: K,
+    payload: BrixelTaskClientEvents<TInputs>[K]
+  ): void {
+    this.listeners.get(event)?.forEach((listener) => listener(payload));
+  }
+
+  private setState(patch: Partial<BrixelTaskSnapshot<TInputs>>): void {
+    const previous = this.snapshot;
+    this.snapshot = { ...previous, ...patch };
+
+    if (patch.status !== undefined && patch.status !== previous.status) {
+      this.emit("status", patch.status);
+    }
+    this.emit("change", this.snapshot);
+  }
+
+  // ==========================================================================
+  // Actions
+  // ==========================================================================
+
+  complete = <TPort extends OutputPortName<TOutput>>(
+    output: PortOutput<TOutput, TPort>,
+    ...[options]: CompleteArgs<TOutput, TPort>
+  ): Promise<SettlementResult> => {
+    if (this.isDestroyed("complete")) {
+      return Promise.resolve({ status: "ignored" });
+    }
+    if (this.hasCompleted) {
+      this.debugLog("Already completed, ignoring duplicate complete call");
+      return Promise.resolve({ status: "ignored" });
+    }
+
+    const { runId } = this.snapshot;
+    if (!runId) {
+      console.error("[BrixelSDK] Cannot complete - no runId");
+      return Promise.resolve({ status: "ignored" });
+    }
+
+    const port = options?.port;
+    const target = this.outputTarget(port);
+    const errors =
+      "error" in target ? [target.error] : target.schema ? validateSchema(output, target.schema) : [];
+    this.setState({ validationErrors: { ...this.snapshot.validationErrors, output: errors } });
+
+    if (errors.length > 0) {
+      // Keep the task open so the user can fix their answer
+      this.debugLog("Output failed schema validation, not completing:", errors);
+      this.postValidationError(runId, "INVALID_OUTPUT", errors, false);
+      return Promise.resolve({ status: "invalid", errors });
+    }
+
+    this.hasCompleted = true;
+    this.setState({ status: "completed", rejection: null });
+    this.debugLog(port ? `Task completed through port "${port}":` : "Task completed with output:", output);
+
+    return this.sendSettlement("complete", (requestId) => ({
+      type: "BRIXEL_COMPLETE",
+      payload: { runId, output, port, requestId },
+    }));
+  };
+
+  cancel = (reason?: string): Promise<SettlementResult> => {
+    if (this.isDestroyed("cancel")) {
+      return Promise.resolve({ status: "ignored" });
+    }
+    if (this.hasCompleted) {
+      this.debugLog("Already completed, ignoring cancel call");
+      return Promise.resolve({ status: "ignored" });
+    }
+
+    const { runId } = this.snapshot;
+    if (!runId) {
+      console.error("[BrixelSDK] Cannot cancel - no runId");
+      return Promise.resolve({ status: "ignored" });
+    }
+
+    this.hasCompleted = true;
+    this.setState({ status: "cancelled", rejection: null });
+    this.debugLog("Task cancelled:", reason);
+
+    return this.sendSettlement("cancel", (requestId) => ({
+      type: "BRIXEL_CANCEL",
+      payload: { runId, reason, requestId },
+    }));
+  };
+
+  /**
+   * Send COMPLETE / CANCEL and re-send it until the host acknowledges or rejects it.
+   * Hosts that don't advertise acknowledgements get it once.
+   */
+  private sendSettlement(
+    action: PendingSettlement["action"],
+    createMessage: (requestId: string) => unknown
+  ): Promise<SettlementResult> {
+    const {
+      ackTimeoutMs = DEFAULT_ACK_TIMEOUT_MS,
+      ackRetryIntervalMs = DEFAULT_ACK_RETRY_INTERVAL_MS,
+    } = this.options;
+    const requestId = createRequestId();
+    const message = createMessage(requestId);
+
+    if (!this.hostAcknowledges) {
+      this.postToParent(message);
+      this.clearDrafts();
+      return Promise.resolve({ status: "unacknowledged" });
+    }
+
+    return new Promise((resolve) => {
+      const retry = setInterval(() => {
+        this.debugLog(`No acknowledgement yet, re-sending ${action}`);
+        this.postToParent(message);
+      }, ackRetryIntervalMs);
+
+      const timeout = setTimeout(() => {
+        this.debugLog(`No acknowledgement for ${action} after ${ackTimeoutMs}ms`);
+        pending.finish({ status: "unacknowledged" });
+      }, ackTimeoutMs);
+
+      const pending: PendingSettlement = {
+        action,
+        requestId,
+        finish: (result) => {
+          clearInterval(retry);
+          clearTimeout(timeout);
+          if (this.pendingSettlement === pending) {
+            this.pendingSettlement = null;
+          }
+          // Drafts are only needed while the task is open
+          if (result.status === "rejected") {
+            this.scheduleDraftSave();
+          } else {
+            this.clearDrafts();
+          }
+          resolve(result);
+        },
+      };
+
+      this.pendingSettlement = pending;
+      this.postToParent(message);
+    });
+  }
+
+  private handleSettlementReply(
+    action: PendingSettlement["action"],
+    requestId: string,
+    rejection?: { reason: string; details?: unknown }
+  ): void {
+    const pending = this.pendingSettlement;
+    if (!pending || pending.action !== action || pending.requestId !== requestId) {
+      this.debugLog(`Ignoring ${action} reply for unknown request:`, requestId);
+      return;
+    }
+
+    if (!rejection) {
+      this.debugLog(`Host acknowledged ${action}`);
+      pending.finish({ status: "acknowledged" });
+      return;
+    }
+
+    // Let the user fix their answer and try again
+    this.debugLog(`Host rejected ${action}:`, rejection);
+    this.hasCompleted = false;
+    this.setState({
+      status: "ready",
+      rejection: { action, reason: rejection.reason, details: rejection.details },
+    });
+    pending.finish({ status: "rejected", action, reason: rejection.reason, details: rejection.details });
+  }
+
+  reportError = (
+    code: TaskErrorCode,
+    message: string,
+    details?: unknown,
+    { fatal = true }: { fatal?: boolean } = {}
+  ): void => {
+    if (this.isDestroyed("reportError")) return;
+
+    if (fatal) {
+      this.setState({ status: "error", error: { code, message, details } });
+    }
+
+    const { runId } = this.snapshot;
+    if (!runId) {
+      this.debugLog("Cannot report error to host - no runId:", { code, message });
+      return;
+    }
+
+    this.postToParent({
+      type: "BRIXEL_ERROR",
+      payload: {
+        runId,
+        error: { code, message, details: details instanceof Error ? serializeError(details) : details, fatal },
+      },
+    });
+
+    this.debugLog("Error reported:", { code, message, fatal });
+  };
+
+  private handleGlobalError = (event: ErrorEvent): void => {
+    this.reportError(
+      "UNCAUGHT_ERROR",
+      event.message || "Uncaught error",
+      {
+        error: serializeError(event.error ?? event.message),
+        source: event.filename,
+        line: event.lineno,
+        column: event.colno,
+      },
+      { fatal: false }
+    );
+  };
+
+  private handleUnhandledRejection = (event: PromiseRejectionEvent): void => {
+    const error = serializeError(event.reason);
+    this.reportError(
+      "UNHANDLED_REJECTION",
+      error.message || "Unhandled promise rejection",
+      { error },
+      { fatal: false }
+    );
+  };
+
+  private removeGlobalErrorListeners(): void {
+    window.removeEventListener("error", this.handleGlobalError);
+    window.removeEventListener("unhandledrejection", this.handleUnhandledRejection);
+  }
+
+  reportProgress = ({ percentage, step }: { percentage?: number; step?: string }): void => {
+    const { runId } = this.snapshot;
+    if (!runId || this.isDestroyed("reportProgress") || this.hasCompleted) return;
+
+    this.postToParent({
+      type: "BRIXEL_PROGRESS",
+      payload: {
+        runId,
+        percentage: percentage === undefined ? undefined : Math.min(100, Math.max(0, percentage)),
+        step,
+      },
+    });
+
+    this.debugLog("Progress reported:", { percentage, step });
+  };
+
+  emitPartial = (output: Partial<PortOutput<TOutput>>): void => {
+    const { runId } = this.snapshot;
+    if (!runId || this.isDestroyed("emitPartial")) return;
+    if (this.hasCompleted) {
+      this.debugLog("Already completed, ignoring partial output");
+      return;
+    }
+
+    this.partialSequence += 1;
+    this.postToParent({
+      type: "BRIXEL_PARTIAL_OUTPUT",
+      payload: { runId, output, sequence: this.partialSequence },
+    });
+
+    this.debugLog("Partial output emitted:", output);
+  };
+
+  setHeight = (height: number | "auto"): void => {
+    const { runId } = this.snapshot;
+    if (!runId || this.isDestroyed("setHeight")) return;
+
+    this.lastHeight = height;
+    this.postToParent({
+      type: "BRIXEL_RESIZE",
+      payload: { runId, height },
+    });
+
+    this.debugLog("Resize requested:", height);
+  };
+
+  log = (level: "debug" | "info" | "warn" | "error", message: string, data?: unknown): void => {
+    const { runId } = this.snapshot;
+    if (!runId || this.isDestroyed("log")) return;
+
+    this.postToParent({
+      type: "BRIXEL_LOG",
+      payload: { runId, level, message, data },
+    });
+  };
+
+  executeTask: BrixelTaskActions["executeTask"] = async <TTaskOutput = unknown>(
+    params: Parameters<BrixelTaskActions["executeTask"]>[0]
+  ): Promise<ExecuteTaskResponse<TTaskOutput>> => {
+    if (this.isDestroyed("executeTask")) {
+      return {
+        success: false,
+        error: { code: "ABORTED", message: "The task has been destroyed", attempts: 0 },
+      };
+    }
+
+    const { signal, dispose } = combineSignals(this.abortController.signal, params.signal);
+    // Bound to the context at call time, so token/conversation updates apply immediately
+    const run = () => {
+      const context = this.snapshot.context;
+      return createExecuteTask({
+        apiToken: context?.apiToken,
+        conversationId: context?.conversationId,
+        apiBaseUrl: context?.apiBaseUrl,
+      })<TTaskOutput>({ ...params, signal });
+    };
+
+    try {
+      const response = await run();
+      if (
+        response.success ||
+        response.error.code !== "UNAUTHORIZED" ||
+        signal.aborted ||
+        !this.snapshot.context?.capabilities.tokenRefresh
+      ) {
+        return response;
+      }
+
+      // The token probably expired: retry once with a fresh one
+      try {
+        await this.refreshToken();
+      } catch (error) {
+        this.debugLog("Token refresh failed:", error);
+        return response;
+      }
+      return await run();
+    } finally {
+      dispose();
+    }
+  };
+
+  executeTaskAsync: BrixelTaskActions["executeTaskAsync"] = <TTaskOutput = unknown>(
+    params: Parameters<BrixelTaskActions["executeTaskAsync"]>[0]
+  ): TaskExecution<TTaskOutput> => {
+    // Once destroyed, the combined signal is already aborted and the job settles as cancelled
+    this.isDestroyed("executeTaskAsync");
+
+    const context = this.snapshot.context;
+    const { signal, dispose } = combineSignals(this.abortController.signal, params.signal);
+    const execution = executeTaskAsync<TTaskOutput>({
+      ...params,
+      signal,
+      apiToken: context?.apiToken,
+      conversationId: context?.conversationId,
+      apiBaseUrl: context?.apiBaseUrl,
+    });
+    execution.result.finally(dispose);
+    return execution;
+  };
+
+  // ==========================================================================
+  // Drafts
+  // ==========================================================================
+
+  /**
+   * Draft saved under `key`, restored from BRIXEL_INIT after an iframe reload
+   */
+  getDraft = (key: string): unknown => this.drafts[key];
+
+  /**
+   * Save a draft under `key` (debounced). `undefined` removes it. Drafts are
+   * cleared once the task completes or cancels.
+   */
+  saveDraft = (key: string, value: unknown): void => {
+    if (this.isDestroyed("saveDraft") || this.hasCompleted) return;
+
+    const { [key]: _previous, ...drafts } = this.drafts;
+    this.drafts = value === undefined ? drafts : { ...drafts, [key]: value };
+    this.scheduleDraftSave();
+  };
+
+  private scheduleDraftSave(): void {
+    if (this.draftTimer) clearTimeout(this.draftTimer);
+    this.draftTimer = setTimeout(this.flushDrafts, this.options.drafts?.debounceMs ?? DEFAULT_DRAFT_DEBOUNCE_MS);
+  }
+
+  private flushDrafts = (): void => {
+    if (this.draftTimer) clearTimeout(this.draftTimer);
+    this.draftTimer = null;
+    if (this.hasCompleted) return;
+
+    let json: string;
+    try {
+      json = JSON.stringify(this.drafts);
+    } catch (error) {
+      console.error("[BrixelSDK] Drafts are not serializable, not saved:", error);
+      return;
+    }
+
+    const maxBytes = this.options.drafts?.maxBytes ?? DEFAULT_DRAFT_MAX_BYTES;
+    const size = new TextEncoder().encode(json).length;
+    if (size > maxBytes) {
+      console.error(`[BrixelSDK] Drafts not saved: ${size} bytes exceeds the ${maxBytes} byte limit`);
+      return;
+    }
+
+    if (!this.isEmbedded) writeStoredDrafts(json);
+    const { runId } = this.snapshot;
+    if (!runId) return;
+    this.postToParent({
+      type: "BRIXEL_SAVE_STATE",
+      // Send what a restore would give back (e.g. Dates as strings)
+      payload: { runId, state: JSON.parse(json) },
+    });
+    this.debugLog("Drafts saved:", Object.keys(this.drafts));
+  };
+
+  private clearDrafts(): void {
+    if (this.draftTimer) clearTimeout(this.draftTimer);
+    this.draftTimer = null;
+    this.drafts = {};
+    if (!this.isEmbedded) writeStoredDrafts(null);
+  }
+
+  /**
+   * Take the drafts the host kept. On the first INIT, drafts saved before it are
+   * newer: they win and are sent to the host.
+   */
+  private restoreDrafts(savedState: unknown, firstRun: boolean): void {
+    if (this.draftTimer) clearTimeout(this.draftTimer);
+    this.draftTimer = null;
+    const saved =
+      typeof savedState === "object" && savedState !== null && !Array.isArray(savedState)
+        ? (savedState as Record<string, unknown>)
+        : this.isEmbedded
+          ? {}
+          : readStoredDrafts();
+    const pending = firstRun ? this.drafts : {};
+    this.drafts = { ...saved, ...pending };
+    if (Object.keys(pending).length > 0) this.scheduleDraftSave();
+  }
+
+  // ==========================================================================
+  // Capability bridge
+  // ==========================================================================
+
+  requestFullscreen = (): Promise<void> => this.requestCapability({ capability: "requestFullscreen" });
+
+  exitFullscreen = (): Promise<void> => this.requestCapability({ capability: "exitFullscreen" });
+
+  copyToClipboard = (text: string): Promise<void> =>
+    this.requestCapability({ capability: "copyToClipboard", text });
+
+  openExternalUrl = (url: string): Promise<void> => this.requestCapability({ capability: "openExternalUrl", url });
+
+  requestFiles = (options: FileRequestOptions = {}): Promise<File[]> => {
+    // The user may take their time in the picker: only the transfer is timed
+    const problem = this.unavailable("fileUpload", "files");
+    return this.openRequest<File[]>("requestFiles", problem, false, (runId, requestId, pending) => {
+      pending.maxSizeBytes = options.maxSizeBytes;
+      this.postToParent({
+        type: "BRIXEL_FILE_REQUEST",
+        payload: { runId, requestId, ...options },
+      });
+    });
+  };
+
+  offerDownload = (file: Blob, filename: string): Promise<void> => {
+    const problem: RequestError | null =
+      typeof filename === "string" && filename.trim() !== ""
+        ? this.unavailable("fileDownload", "files")
+        : { code: "INVALID_ARGUMENT", message: "A filename is required" };
+
+    return this.openRequest<void>("offerDownload", problem, true, (runId, requestId, pending) => {
+      this.postToParent({
+        type: "BRIXEL_DOWNLOAD",
+        payload: { runId, requestId, file: describeFile(file, filename) },
+      });
+
+      sendFileChunks([file], (_index, offset, data) => {
+        if (!this.pendingRequests.has(requestId)) return;
+        pending.touch();
+        this.postToParent({ type: "BRIXEL_DOWNLOAD_CHUNK", payload: { runId, requestId, offset, data } }, [data]);
+      }).catch((error) => {
+        pending.fail({ code: "ABORTED", message: error instanceof Error ? error.message : "Could not read the file" });
+      });
+    });
+  };
+
+  notify = (options: NotifyOptions): void => {
+    if (this.isDestroyed("notify")) return;
+
+    const { runId, context } = this.snapshot;
+    if (!runId || !context?.capabilities.notifications) {
+      showToast(options, context?.theme);
+      return;
+    }
+
+    this.postToParent({
+      type: "BRIXEL_NOTIFY",
+      payload: { runId, ...options },
+    });
+  };
+
+  confirm = (options: ConfirmOptions): Promise<boolean> => {
+    const { context } = this.snapshot;
+    if (this.snapshot.runId && context?.capabilities.dialogs) {
+      // Waits for the user: not timed
+      return this.openRequest<boolean>("confirm", null, false, (runId, requestId) => {
+        this.postToParent({
+          type: "BRIXEL_CONFIRM_REQUEST",
+          payload: { runId, requestId, ...options },
+        });
+      });
+    }
+
+    if (this.isDestroyed("confirm")) {
+      return Promise.reject(new BrixelCapabilityError("confirm", "ABORTED", "The task was destroyed"));
+    }
+    const dialog = new AbortController();
+    this.fallbackDialogs.add(dialog);
+    return showConfirmDialog(options, context?.theme, dialog.signal).finally(() =>
+      this.fallbackDialogs.delete(dialog)
+    );
+  };
+
+  openSubtask = <TSubInputs = unknown, TSubOutput = unknown>(
+    options: SubtaskOptions<TSubInputs>
+  ): Promise<BrixelTaskOutcome<TSubOutput>> => {
+    const { context } = this.snapshot;
+    const depth = context?.subtaskDepth ?? 0;
+    const maxDepth = context?.maxSubtaskDepth ?? DEFAULT_MAX_SUBTASK_DEPTH;
+
+    const problem: RequestError | null =
+      typeof options.taskUuid !== "string" || options.taskUuid === ""
+        ? { code: "INVALID_ARGUMENT", message: "A taskUuid is required" }
+        : context && depth >= maxDepth
+          ? { code: "DEPTH_EXCEEDED", message: `Subtasks can't be nested more than ${maxDepth} levels deep` }
+          : this.unavailable("subtasks");
+
+    // The child runs as long as the user needs: not timed
+    return this.openRequest<BrixelTaskOutcome<TSubOutput>>("openSubtask", problem, false, (runId, requestId) => {
+      this.postToParent({
+        type: "BRIXEL_OPEN_SUBTASK",
+        payload: { runId, requestId, conversationId: context?.conversationId, ...options },
+      });
+    });
+  };
+
+  refreshToken = (): Promise<string> => {
+    if (this.tokenRequest) return this.tokenRequest;
+
+    const problem = this.unavailable("tokenRefresh");
+    const request = this.openRequest<string>("refreshToken", problem, true, (runId, requestId) => {
+      this.postToParent({
+        type: "BRIXEL_REQUEST_TOKEN",
+        payload: { runId, requestId },
+      });
+    })
+      .then((apiToken) => {
+        this.updateContext({ apiToken });
+        return apiToken;
+      })
+      .finally(() => {
+        this.tokenRequest = null;
+      });
+    this.tokenRequest = request;
+    return request;
+  };
+
+  /**
+   * Why a host feature can't be used, checked locally so unsupported calls fail fast
+   */
+  private unavailable(
+    capability: keyof BrixelContext["capabilities"],
+    permission?: "clipboard" | "files"
+  ): RequestError | null {
+    const capabilities = this.snapshot.context?.capabilities;
+    if (!this.snapshot.runId || !capabilities) {
+      return { code: "NOT_READY", message: "The host has not initialized the task yet" };
+    }
+
+    const { manifest } = this.options;
+    if (permission && manifest && !manifest.permissions?.[permission]) {
+      return { code: "PERMISSION_DENIED", message: `The manifest does not declare "permissions.${permission}"` };
+    }
+
+    return capabilities[capability]
+      ? null
+      : { code: "UNSUPPORTED", message: `The host does not support "${capability}"` };
+  }
+
+  private checkCapability(request: CapabilityRequest): RequestError | null {
+    switch (request.capability) {
+      case "requestFullscreen":
+      case "exitFullscreen":
+        return this.unavailable("fullscreen");
+
+      case "copyToClipboard":
+        if (typeof request.text !== "string") {
+          return { code: "INVALID_ARGUMENT", message: "Only text can be copied to the clipboard" };
+        }
+        return this.unavailable("clipboard", "clipboard");
+
+      case "openExternalUrl": {
+        let protocol: string;
+        try {
+          protocol = new URL(request.url).protocol;
+        } catch {
+          return { code: "INVALID_ARGUMENT", message: `Invalid URL: "${request.url}"` };
+        }
+        if (protocol !== "http:" && protocol !== "https:") {
+          return { code: "INVALID_ARGUMENT", message: `Only http(s) URLs can be opened, got "${protocol}"` };
+        }
+        return this.unavailable("externalLinks");
+      }
+    }
+  }
+
+  private requestCapability(request: CapabilityRequest): Promise<void> {
+    return this.openRequest<void>(request.capability, this.checkCapability(request), true, (runId, requestId) => {
+      this.postToParent({
+        type: "BRIXEL_CAPABILITY_REQUEST",
+        payload: { runId, requestId, ...request },
+      });
+    });
+  }
+
+  /**
+   * Register a request the host answers by requestId. Fails with a
+   * `BrixelCapabilityError` on `problem`, timeout or destroy.
+   */
+  private openRequest<T>(
+    capability: BrixelCapability,
+    problem: RequestError | null,
+    timed: boolean,
+    send: (runId: string, requestId: string, pending: PendingRequest) => void
+  ): Promise<T> {
+    if (this.isDestroyed(capability)) {
+      return Promise.reject(new BrixelCapabilityError(capability, "ABORTED", "The task was destroyed"));
+    }
+    if (problem) {
+      this.debugLog(`${capability} unavailable:`, problem);
+      return Promise.reject(new BrixelCapabilityError(capability, problem.code, problem.message));
+    }
+
+    const runId = this.snapshot.runId!;
+    const requestId = createRequestId();
+    const timeoutMs = this.options.requestTimeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS;
+
+    return new Promise<T>((resolve, reject) => {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const done = () => {
+        clearTimeout(timer);
+        this.pendingRequests.delete(requestId);
+      };
+
+      const pending: PendingRequest = {
+        resolve: (value) => {
+          done();
+          resolve(value as T);
+        },
+        fail: (error) => {
+          done();
+          reject(new BrixelCapabilityError(capability, error.code, error.message));
+        },
+        touch: () => {
+          clearTimeout(timer);
+          timer = setTimeout(() => {
+            this.debugLog(`No answer to ${capability} after ${timeoutMs}ms`);
+            pending.fail({ code: "TIMEOUT", message: `The host did not answer within ${timeoutMs}ms` });
+          }, timeoutMs);
+        },
+      };
+
+      this.pendingRequests.set(requestId, pending);
+      if (timed) pending.touch();
+      send(runId, requestId, pending);
+      this.debugLog(`Requested ${capability}`);
+    });
+  }
+
+  private handleFileResult({ requestId, files = [], error }: FileResultMessage["payload"]): void {
+    const pending = this.pendingRequests.get(requestId);
+    if (!pending) {
+      this.debugLog("Ignoring file result for unknown request:", requestId);
+      return;
+    }
+    if (error) {
+      pending.fail(error);
+      return;
+    }
+
+    const { maxSizeBytes } = pending;
+    const tooLarge = maxSizeBytes === undefined ? undefined : files.find((file) => file.size > maxSizeBytes);
+    if (tooLarge) {
+      pending.fail({ code: "TOO_LARGE", message: `"${tooLarge.name}" exceeds ${maxSizeBytes} bytes` });
+      return;
+    }
+
+    const assembler = createFileAssembler(files);
+    if (assembler.isComplete()) {
+      pending.resolve(assembler.files());
+      return;
+    }
+    pending.files = assembler;
+    pending.touch();
+  }
+
+  private handleFileChunk({ requestId, index, offset, data }: FileChunkMessage["payload"]): void {
+    const pending = this.pendingRequests.get(requestId);
+    if (!pending?.files) {
+      this.debugLog("Ignoring file chunk for unknown request:", requestId);
+      return;
+    }
+
+    if (!pending.files.add(index, offset, data)) {
+      pending.fail({ code: "ABORTED", message: "File chunks arrived out of order" });
+      return;
+    }
+    if (pending.files.isComplete()) {
+      pending.resolve(pending.files.files());
+    } else {
+      pending.touch();
+    }
+  }
+
+  private abortRequests(message: string): void {
+    for (const pending of [...this.pendingRequests.values()]) {
+      pending.fail({ code: "ABORTED", message });
+    }
+    // In-iframe confirm dialogs are closed, answering false
+    for (const dialog of this.fallbackDialogs) dialog.abort();
+  }
+
+  // ==========================================================================
+  // Destroy
+  // ==========================================================================
+
+  private isDestroyed(action: string): boolean {
+    if (this.snapshot.status !== "destroyed") return false;
+    this.debugLog(`Task destroyed, ignoring ${action}()`);
+    return true;
+  }
+
+  /**
+   * Tear everything down, run `onDestroy` and acknowledge to the host
+   */
+  private async destroy(runId: string): Promise<void> {
+    // The host may recreate the iframe: hand over the latest drafts first
+    if (this.draftTimer) this.flushDrafts();
+    this.stopHandshake();
+    this.stopHeartbeat();
+    this.stopAutoResize();
+    this.pendingSettlement?.finish({ status: "unacknowledged" });
+    this.abortRequests("The task was destroyed");
+    this.abortController.abort();
+
+    this.setState({ status: "destroyed" });
+    this.emit("destroy", undefined);
+
+    const timeoutMs = this.options.destroyTimeoutMs ?? DEFAULT_DESTROY_TIMEOUT_MS;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    try {
+      await Promise.race([
+        Promise.resolve(this.options.onDestroy?.()),
+        new Promise<void>((resolve) => {
+          timer = setTimeout(() => {
+            this.debugLog(`onDestroy did not finish within ${timeoutMs}ms`);
+            resolve();
+          }, timeoutMs);
+        }),
+      ]);
+    } catch (error) {
+      console.error("[BrixelSDK] onDestroy failed:", error);
+    } finally {
+      clearTimeout(timer);
+    }
+
+    this.postToParent({
+      type: "BRIXEL_DESTROY_ACK",
+      payload: { runId },
+    });
+
+    window.removeEventListener("message", this.handleMessage);
+    window.removeEventListener("pagehide", this.flushDrafts);
+    this.unwatchSystemTheme?.();
+    this.unwatchSystemTheme = null;
+    this.removeGlobalErrorListeners();
+    this.started = false;
+    this.debugLog("Destroyed, DESTROY_ACK sent");
+  }
+
+  // ==========================================================================
+  // Messaging
+  // ==========================================================================
+
+  private debugLog(message: string, data?: unknown): void {
+    if (this.options.debug) {
+      console.log(`[BrixelSDK] ${message}`, data ?? "");
+    }
+  }
+
+  private schemas() {
+    const { manifest, inputSchema = manifest?.inputSchema, outputSchema = manifest?.outputSchema } =
+      this.options;
+    return { inputSchema, outputSchema };
+  }
+
+  /**
+   * Schema for an output port. With `ports` in the manifest, the port is required
+   * and must be declared; port schemas fall back to the task `outputSchema`.
+   */
+  private outputTarget(port: string | undefined): { schema?: JsonSchema } | { error: SchemaValidationError } {
+    const { outputSchema } = this.schemas();
+    const ports = this.options.manifest?.ports;
+    if (!ports) {
+      return { schema: outputSchema };
+    }
+
+    const names = Object.keys(ports).map((name) => `"${name}"`).join(", ");
+    if (port === undefined) {
+      return { error: { path: "", keyword: "port", message: `An output port is required (one of ${names})` } };
+    }
+    if (!Object.prototype.hasOwnProperty.call(ports, port)) {
+      return { error: { path: "", keyword: "port", message: `Unknown output port "${port}" (expected one of ${names})` } };
+    }
+    return { schema: ports[port].outputSchema ?? outputSchema };
+  }
+
+  private postToParent(message: unknown, transfer?: Transferable[]): void {
+    if (!this.parentWindow) {
+      this.debugLog("Cannot send message - no parent window");
+      return;
+    }
+
+    // Explicit option, then the pinned host origin, then the only allowed origin
+    const { targetOrigin, allowedOrigins } = this.options;
+    const singleAllowed =
+      allowedOrigins?.length === 1 && typeof allowedOrigins[0] === "string" ? allowedOrigins[0] : null;
+    const origin = targetOrigin ?? this.hostOrigin ?? toTargetOrigin(singleAllowed);
+
+    this.debugLog("Sending message to parent:", message);
+    this.parentWindow.postMessage(message, origin, transfer);
+  }
+
+  // Report schema violations to the host
+  private postValidationError(
+    runId: string,
+    code: "INVALID_INPUTS" | "INVALID_OUTPUT",
+    errors: SchemaValidationError[],
+    fatal: boolean
+  ): void {
+    this.postToParent({
+      type: "BRIXEL_ERROR",
+      payload: {
+        runId,
+        error: {
+          code,
+          message:
+            code === "INVALID_INPUTS"
+              ? "Inputs do not match the task's input schema"
+              : "Output does not match the task's output schema",
+          details: { errors },
+          fatal,
+        },
+      },
+    });
+  }
+
+  // Validate inputs against the input schema, reporting violations. Non-fatal: the
+  // host keeps the run open so it can send corrected inputs
+  private checkInputs(runId: string, value: unknown): SchemaValidationError[] {
+    const schema = this.schemas().inputSchema;
+    const errors = schema ? validateSchema(value, schema) : [];
+
+    if (errors.length > 0) {
+      this.debugLog("Inputs failed schema validation:", errors);
+      this.hasInvalidInputs = true;
+      this.postValidationError(runId, "INVALID_INPUTS", errors, false);
+    }
+    return errors;
+  }
+
+  private inputsError(errors: SchemaValidationError[]) {
+    return {
+      code: "INVALID_INPUTS",
+      message: "Inputs do not match the task's input schema",
+      details: { errors },
+    };
+  }
+
+  private reject(
+    event: MessageEvent,
+    messageType: string,
+    reason: SecurityViolation["reason"],
+    description: string
+  ): void {
+    const violation: SecurityViolation = {
+      reason,
+      origin: event.origin,
+      messageType,
+      message: description,
+    };
+    this.debugLog("Rejected message:", violation);
+    this.options.onSecurityViolation?.(violation);
+    this.emit("securityViolation", violation);
+  }
+
+  // Handle incoming messages from parent (or simulated in dev mode)
+  private handleMessage = (event: MessageEvent): void => {
+    const message = event.data as HostToIframeMessage<TInputs>;
+
+    // Validate message structure
+    if (!message || typeof message !== "object" || typeof message.type !== "string") {
+      return;
+    }
+
+    // Only process Brixel host messages
+    if (!HOST_MESSAGE_TYPES.has(message.type)) {
+      return;
+    }
+
+    // Only the parent (or this window itself, for dev tools in standalone mode) may talk to us
+    if (event.source !== this.parentWindow) {
+      this.reject(event, message.type, "source", "Message was not sent by the parent window");
+      return;
+    }
+
+    if (this.isEmbedded) {
+      if (!isOriginAllowed(event.origin, this.options.allowedOrigins)) {
+        this.reject(event, message.type, "origin", `Origin "${event.origin}" is not allowed`);
+        return;
+      }
+      if (this.hostOrigin && toTargetOrigin(event.origin) !== this.hostOrigin) {
+        this.reject(
+          event,
+          message.type,
+          "origin",
+          `Origin "${event.origin}" does not match host origin "${this.hostOrigin}"`
+        );
+        return;
+      }
+    }
+
+    // Everything except INIT must target the current run
+    const currentRunId = this.snapshot.runId;
+    if (message.type !== "BRIXEL_INIT" && message.payload?.runId !== currentRunId) {
+      this.reject(
+        event,
+        message.type,
+        "runId",
+        `Message targets run "${message.payload?.runId}" but current run is "${currentRunId}"`
+      );
+      return;
+    }
+
+    this.debugLog("Received message:", message);
+
+    switch (message.type) {
+      case "BRIXEL_INIT": {
+        const { runId, inputs, context, renderMode } = message.payload;
+
+        // READY retries can yield several INITs for the same run
+        if (runId === this.snapshot.runId) {
+          this.debugLog("Duplicate INIT ignored for run:", runId);
+          return;
+        }
+
+        // Pin outgoing messages to the host that initialized us
+        if (this.isEmbedded && !this.hostOrigin && toTargetOrigin(event.origin) !== "*") {
+          this.hostOrigin = event.origin;
+          this.debugLog("Pinned host origin:", event.origin);
+        }
+
+        this.pendingSettlement?.finish({ status: "unacknowledged" });
+        this.partialSequence = 0;
+        this.inputsRevision = message.payload.inputsRevision ?? null;
+        this.resyncRequestedAt = 0;
+        this.hasCompleted = false;
+        this.hasInvalidInputs = false;
+        this.hostAcknowledges = message.payload.settlementAcks === true;
+        this.restoreDrafts(message.payload.savedState, this.snapshot.runId === null);
+        const inputErrors = this.checkInputs(runId, inputs);
+
+        this.stopHandshake();
+        this.setState({
+          runId,
+          inputs,
+          context,
+          renderMode,
+          status: inputErrors.length > 0 ? "error" : "ready",
+          error: inputErrors.length > 0 ? this.inputsError(inputErrors) : null,
+          validationErrors: { inputs: inputErrors, output: [] },
+          rejection: null,
+        });
+        this.setConnection("connected");
+        this.syncTheme();
+
+        this.emit("init", message.payload);
+        this.emit("inputs", inputs);
+        this.emit("context", context);
+        // A new run (or a reloaded host) needs the current height
+        this.lastHeight = null;
+        this.startAutoResize();
+        this.requestResize();
+        this.startHeartbeat();
+
+        this.debugLog("Initialized with:", { runId, inputs, context });
+        break;
+      }
+
+      case "BRIXEL_UPDATE_INPUTS": {
+        const { runId, inputs: updatedInputs, merge, revision, replace } = message.payload;
+        if (!replace && !this.followsRevision(runId, revision)) break;
+
+        const previous = this.snapshot.inputs;
+        const inputs =
+          replace || !previous
+            ? (updatedInputs as TInputs)
+            : merge === "deep"
+              ? deepMerge(previous, updatedInputs)
+              : { ...previous, ...updatedInputs };
+        if (revision !== undefined) this.inputsRevision = revision;
+        if (replace) this.resyncRequestedAt = 0;
+
+        this.setInputs(runId, inputs);
+        this.options.onInputsUpdate?.(inputs);
+        this.debugLog(replace ? "Inputs resynced:" : "Inputs updated:", updatedInputs);
+        break;
+      }
+
+      case "BRIXEL_PATCH_INPUTS": {
+        const { runId, operations, revision } = message.payload;
+        if (!this.followsRevision(runId, revision)) break;
+
+        const patched = applyJsonPatch(this.snapshot.inputs, operations);
+        if (!patched.ok) {
+          this.debugLog("Patch could not be applied:", patched.error);
+          this.requestInputs(runId);
+          break;
+        }
+        if (revision !== undefined) this.inputsRevision = revision;
+
+        // Structural sharing: untouched subtrees keep their reference
+        const inputs = patched.value as TInputs;
+        this.setInputs(runId, inputs);
+        this.options.onInputsUpdate?.(inputs);
+        this.debugLog("Inputs patched:", operations);
+        break;
+      }
+
+      case "BRIXEL_DESTROY": {
+        if (this.snapshot.status === "destroyed") break;
+        this.debugLog("Destroy received");
+        void this.destroy(message.payload.runId);
+        break;
+      }
+
+      case "BRIXEL_COMPLETE_ACK":
+        this.handleSettlementReply("complete", message.payload.requestId);
+        break;
+
+      case "BRIXEL_COMPLETE_REJECTED":
+        this.handleSettlementReply("complete", message.payload.requestId, message.payload);
+        break;
+
+      case "BRIXEL_CANCEL_ACK":
+        this.handleSettlementReply("cancel", message.payload.requestId);
+        break;
+
+      case "BRIXEL_CANCEL_REJECTED":
+        this.handleSettlementReply("cancel", message.payload.requestId, message.payload);
+        break;
+
+      case "BRIXEL_PONG":
+        this.lastPongAt = Date.now();
+        this.setConnection("connected");
+        break;
+
+      case "BRIXEL_CAPABILITY_RESULT": {
+        const { requestId, error } = message.payload;
+        const pending = this.pendingRequests.get(requestId);
+        if (!pending) {
+          this.debugLog("Ignoring capability result for unknown request:", requestId);
+          break;
+        }
+        if (error) {
+          pending.fail(error);
+        } else {
+          pending.resolve(undefined);
+        }
+        break;
+      }
+
+      case "BRIXEL_CONFIRM_RESULT": {
+        const { requestId, confirmed } = message.payload;
+        const pending = this.pendingRequests.get(requestId);
+        if (!pending) {
+          this.debugLog("Ignoring confirm result for unknown request:", requestId);
+          break;
+        }
+        pending.resolve(confirmed === true);
+        break;
+      }
+
+      case "BRIXEL_SUBTASK_RESULT": {
+        const { requestId, outcome, error } = message.payload;
+        const pending = this.pendingRequests.get(requestId);
+        if (!pending) {
+          this.debugLog("Ignoring subtask result for unknown request:", requestId);
+          break;
+        }
+        if (outcome) {
+          pending.resolve(outcome);
+        } else {
+          pending.fail(error ?? { code: "DENIED", message: "The host did not open the subtask" });
+        }
+        break;
+      }
+
+      case "BRIXEL_FILE_RESULT":
+        this.handleFileResult(message.payload);
+        break;
+
+      case "BRIXEL_FILE_CHUNK":
+        this.handleFileChunk(message.payload);
+        break;
+
+      case "BRIXEL_DOWNLOAD_RESULT": {
+        const { requestId, error } = message.payload;
+        const pending = this.pendingRequests.get(requestId);
+        if (!pending) {
+          this.debugLog("Ignoring download result for unknown request:", requestId);
+          break;
+        }
+        if (error) {
+          pending.fail(error);
+        } else {
+          pending.resolve(undefined);
+        }
+        break;
+      }
+
+      case "BRIXEL_UPDATE_THEME": {
+        const { theme, designTokens } = message.payload;
+        this.updateContext(designTokens ? { theme, designTokens } : { theme });
+        this.debugLog("Theme updated:", theme);
+        break;
+      }
+
+      case "BRIXEL_UPDATE_LOCALE": {
+        const { locale } = message.payload;
+        this.updateContext({ locale });
+        this.debugLog("Locale updated:", locale);
+        break;
+      }
+
+      case "BRIXEL_UPDATE_CONTEXT": {
+        // The run is fixed for the lifetime of the task
+        const { runId: _runId, ...patch } = message.payload.context ?? {};
+        this.updateContext(patch);
+        this.debugLog("Context updated:", Object.keys(patch));
+        break;
+      }
+
+      case "BRIXEL_TOKEN_RESULT": {
+        const { requestId, apiToken, error } = message.payload;
+        const pending = this.pendingRequests.get(requestId);
+        if (!pending) {
+          this.debugLog("Ignoring token result for unknown request:", requestId);
+          break;
+        }
+        if (typeof apiToken === "string" && apiToken) {
+          pending.resolve(apiToken);
+        } else {
+          pending.fail(error ?? { code: "DENIED", message: "The host did not issue a token" });
+        }
+        break;
+      }
+    }
+  };
+
+  /**
+   * Validate updated inputs and publish them
+   */
+  private setInputs(runId: string, inputs: TInputs): void {
+    const hadInvalidInputs = this.hasInvalidInputs;
+    const inputErrors = this.checkInputs(runId, inputs);
+    let { status, error } = this.snapshot;
+    if (inputErrors.length > 0) {
+      status = "error";
+      error = this.inputsError(inputErrors);
+    } else if (hadInvalidInputs && status === "error") {
+      // Corrected inputs bring the task back from an input error
+      this.hasInvalidInputs = false;
+      status = "ready";
+      error = null;
+    }
+
+    this.setState({
+      inputs,
+      status,
+      error,
+      validationErrors: { ...this.snapshot.validationErrors, inputs: inputErrors },
+    });
+
+    this.emit("inputs", inputs);
+  }
+
+  /**
+   * Whether an update applies on top of the current inputs. Stale updates are
+   * dropped; after a gap, the full inputs are requested.
+   */
+  private followsRevision(runId: string, revision: number | undefined): boolean {
+    if (revision === undefined || this.inputsRevision === null) return true;
+    if (revision === this.inputsRevision + 1) return true;
+
+    if (revision <= this.inputsRevision) {
+      this.debugLog(`Ignoring stale inputs revision ${revision}`);
+    } else {
+      this.debugLog(`Missed inputs revisions ${this.inputsRevision + 1} to ${revision - 1}`);
+      this.requestInputs(runId);
+    }
+    return false;
+  }
+
+  private requestInputs(runId: string): void {
+    // One resync at a time, unless the previous one went unanswered
+    const timeoutMs = this.options.requestTimeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS;
+    if (this.resyncRequestedAt && Date.now() - this.resyncRequestedAt < timeoutMs) return;
+    this.resyncRequestedAt = Date.now();
+
+    this.postToParent({
+      type: "BRIXEL_REQUEST_INPUTS",
+      payload: { runId, revision: this.inputsRevision ?? 0 },
+    });
+  }
+
+  private updateContext(patch: Partial<BrixelContext>): void {
+    const previous = this.snapshot.context;
+    if (!previous) return;
+
+    const context = mergeContext(previous, patch);
+    this.setState({ context });
+    this.syncTheme();
+    this.emit("context", context);
+  }
+
+  /**
+   * Resolve the theme after a context or OS change, and apply the design tokens
+   */
+  private syncTheme(): void {
+    const { context } = this.snapshot;
+    const resolvedTheme = resolveTheme(context?.theme);
+
+    if (this.options.applyDesignTokens && typeof document !== "undefined") {
+      this.appliedTokens = applyDesignTokens(resolvedTheme, context?.designTokens, this.appliedTokens);
+    }
+    if (resolvedTheme !== this.snapshot.resolvedTheme) {
+      this.setState({ resolvedTheme });
+      this.emit("theme", resolvedTheme);
+    }
+  }
+
+  // ==========================================================================
+  // Auto-resize
+  // ==========================================================================
+
+  private autoResizeOptions() {
+    const { autoResize, manifest } = this.options;
+    if (autoResize === false) return null;
+    const {
+      element,
+      throttleMs = DEFAULT_RESIZE_THROTTLE_MS,
+      min = manifest?.ui?.minHeight,
+      max = manifest?.ui?.maxHeight,
+    } = autoResize ?? {};
+    return { element, throttleMs, min, max };
+  }
+
+  private startAutoResize(): void {
+    const options = this.autoResizeOptions();
+    if (!options || !this.isEmbedded || this.resizeObserver || typeof ResizeObserver === "undefined") return;
+
+    const element = (typeof options.element === "function" ? options.element() : options.element) ?? document.body;
+    this.resizeTarget = element;
+    this.resizeObserver = new ResizeObserver(() => this.requestResize());
+    this.resizeObserver.observe(element);
+  }
+
+  private stopAutoResize(): void {
+    this.resizeObserver?.disconnect();
+    this.resizeObserver = null;
+    this.resizeTarget = null;
+    if (this.resizeTimer) clearTimeout(this.resizeTimer);
+    this.resizeTimer = null;
+    this.resizeQueued = false;
+  }
+
+  /**
+   * Measure and report the height now, then at most once per `throttleMs`
+   */
+  private requestResize(): void {
+    const options = this.autoResizeOptions();
+    if (!options || !this.resizeTarget) return;
+    if (this.resizeTimer) {
+      this.resizeQueued = true;
+      return;
+    }
+
+    this.reportHeight(this.resizeTarget, options.min, options.max);
+    this.resizeTimer = setTimeout(() => {
+      this.resizeTimer = null;
+      if (!this.resizeQueued) return;
+      this.resizeQueued = false;
+      this.requestResize();
+    }, options.throttleMs);
+  }
+
+  private reportHeight(element: Element, min: number | undefined, max: number | undefined): void {
+    let height = measureHeight(element);
+    if (min !== undefined) height = Math.max(height, min);
+    if (max !== undefined) height = Math.min(height, max);
+
+    // Resizing the iframe triggers the observer again: only report real changes
+    if (height === this.lastHeight) return;
+    this.setHeight(height);
+  }
+}
@@ -0,0 +1,39 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { configureBrixel, getBrixelConfig, resolveEndpoint } from "./config";
+
+// Environments and endpoints are merged across calls: tests only reset the selection
+afterEach(() => {
+  configureBrixel({ environment: undefined, apiBaseUrl: undefined });
+});
+
+describe("configureBrixel", () => {
+  it("uses production outside localhost", () => {
+    expect(getBrixelConfig()).toMatchObject({
+      environment: "production",
+      apiBaseUrl: "https://api.brixel.ai/backoffice/ui-components",
+      source: "auto-detected",
+    });
+  });
+
+  it("selects custom environments", () => {
+    configureBrixel({ environment: "staging", environments: { staging: "https://staging.test/api" } });
+    expect(resolveEndpoint("executeTask")).toBe("https://staging.test/api/execute_task");
+    expect(getBrixelConfig().source).toBe("environment");
+  });
+
+  it("rejects unknown environments", () => {
+    expect(() => configureBrixel({ environment: "qa" })).toThrow('Unknown environment "qa"');
+  });
+
+  it("does not take inherited names for environments", () => {
+    expect(() => configureBrixel({ environment: "constructor" })).toThrow('Unknown environment "constructor"');
+    expect(() => configureBrixel({ environment: "toString" })).toThrow('Unknown environment "toString"');
+    expect(getBrixelConfig().environment).toBe("production");
+  });
+
+  it("prefers the call's apiBaseUrl and fills in job IDs", () => {
+    configureBrixel({ apiBaseUrl: "https://configured.test/" });
+    expect(resolveEndpoint("job", undefined, { jobId: "a/b" })).toBe("https://configured.test/jobs/a%2Fb");
+    expect(resolveEndpoint("executeTask", "https://call.test")).toBe("https://call.test/execute_task");
+  });
+});
@@ -0,0 +1,111 @@
+import type { BrixelConfig, BrixelEndpoints, ResolvedBrixelConfig } from "./types";
+
+const DEFAULT_ENVIRONMENTS: Record<string, string> = {
+  production: "https://api.brixel.ai/backoffice/ui-components",
+  local: "http://localhost:8000/backoffice/ui-components",
+};
+
+const DEFAULT_ENDPOINTS: BrixelEndpoints = {
+  executeTask: "/execute_task",
+  executeTaskAsync: "/execute_task_async",
+  job: "/jobs/{jobId}",
+  jobEvents: "/jobs/{jobId}/events",
+  cancelJob: "/jobs/{jobId}/cancel",
+};
+
+let config: BrixelConfig = {};
+
+function isLocalhost(): boolean {
+  if (typeof window === "undefined") return false;
+  const hostname = window.location.hostname;
+  return hostname === "localhost" || hostname === "127.0.0.1";
+}
+
+/**
+ * Configure the Brixel API for the whole page
+ *
+ * Calls are merged: later calls override the fields they set. Pass
+ * `environment: undefined` or `apiBaseUrl: undefined` to go back to the default.
+ *
+ * @example
+ * ```ts
+ * import { configureBrixel } from "@brixel/ui-task-sdk";
+ *
+ * configureBrixel({
+ *   environment: "staging",
+ *   environments: { staging: "https://api.staging.example.com/backoffice/ui-components" },
+ *   endpoints: { executeTask: "/v2/execute_task" },
+ *   debug: true,
+ * });
+ * ```
+ *
+ * @returns The resolved configuration
+ */
+export function configureBrixel(update: BrixelConfig): ResolvedBrixelConfig {
+  const next: BrixelConfig = {
+    ...config,
+    ...update,
+    environments: { ...config.environments, ...update.environments },
+    endpoints: { ...config.endpoints, ...update.endpoints },
+  };
+  const environments = { ...DEFAULT_ENVIRONMENTS, ...next.environments };
+  // Own keys only: "constructor", "toString"... are not environments
+  if (next.environment !== undefined && !Object.prototype.hasOwnProperty.call(environments, next.environment)) {
+    throw new Error(
+      `[BrixelSDK] Unknown environment "${next.environment}" (known: ${Object.keys(environments).join(", ")})`
+    );
+  }
+
+  config = next;
+  const resolved = getBrixelConfig();
+  if (resolved.debug) {
+    console.log("[BrixelSDK] API configuration:", resolved);
+  }
+  return resolved;
+}
+
+/**
+ * Configuration in effect
+ */
+export function getBrixelConfig(): ResolvedBrixelConfig {
+  const environments = { ...DEFAULT_ENVIRONMENTS, ...config.environments };
+  const environment = config.environment ?? (isLocalhost() ? "local" : "production");
+
+  return {
+    environment,
+    environments,
+    apiBaseUrl: config.apiBaseUrl || environments[environment],
+    source: config.apiBaseUrl ? "configured" : config.environment !== undefined ? "environment" : "auto-detected",
+    endpoints: { ...DEFAULT_ENDPOINTS, ...config.endpoints },
+    debug: config.debug ?? false,
+  };
+}
+
+/**
+ * URL of an API endpoint
+ *
+ * `apiBaseUrl` (from the call or `context.apiBaseUrl`) takes precedence over the
+ * configured base URL.
+ */
+export function resolveEndpoint(
+  endpoint: keyof BrixelEndpoints,
+  apiBaseUrl?: string,
+  params: { jobId?: string } = {}
+): string {
+  const resolved = getBrixelConfig();
+  const path = resolved.endpoints[endpoint].replace("{jobId}", encodeURIComponent(params.jobId ?? ""));
+  if (/^https?:\/\//i.test(path)) return path;
+
+  const baseUrl = (apiBaseUrl || resolved.apiBaseUrl).replace(/\/+$/, "");
+  return `${baseUrl}/${path.replace(/^\/+/, "")}`;
+}
+
+/**
+ * Log an API request when `debug` is configured
+ */
+export function debugRequest(method: string, url: string, apiBaseUrl?: string): void {
+  const resolved = getBrixelConfig();
+  if (!resolved.debug) return;
+  const source = apiBaseUrl ? "call or context" : `${resolved.source}, ${resolved.environment}`;
+  console.log(`[BrixelSDK] ${method} ${url} (base URL from ${source})`);
+}
@@ -0,0 +1,12 @@
+import type { BrixelContext } from "./types";
+
+/**
+ * Apply a BRIXEL_UPDATE_CONTEXT patch: fields are replaced, capabilities merged flag by flag
+ */
+export function mergeContext(context: BrixelContext, patch: Partial<BrixelContext>): BrixelContext {
+  return {
+    ...context,
+    ...patch,
+    capabilities: { ...context.capabilities, ...patch.capabilities },
+  };
+}
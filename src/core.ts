@@ -0,0 +1,50 @@
+/**
+ * @brixel/ui-task-sdk/core
+ *
+ * Framework-agnostic entry point: everything except the React hook and components.
+ * Does not import `react`, so it can back UI Tasks written in Vue, Svelte, Lit or plain JS.
+ *
+ * @example
+ * ```ts
+ * import { BrixelTaskClient } from "@brixel/ui-task-sdk/core";
+ *
+ * const client = new BrixelTaskClient<MyInputs, MyOutput>();
+ * client.on("inputs", (inputs) => render(inputs));
+ * client.start();
+ * ```
+ */
+
+// Task client
+export { BrixelTaskClient, SDK_VERSION } from "./client";
+
+// Error serialization
+export { serializeError, BrixelCapabilityError } from "./errors";
+
+// Host-side embedding
+export { createBrixelHost } from "./host";
+
+// Schema validation
+export { validateSchema } from "./schema";
+
+// Input patches
+export { applyJsonPatch } from "./patch";
+
+// Manifest validation
+export { validateManifest, normalizeManifest, parseManifest, loadManifest } from "./manifest";
+
+// Execute Task API
+export { configureBrixel, getBrixelConfig } from "./config";
+export { executeTask, createExecuteTask } from "./executeTask";
+export { executeTaskAsync } from "./executeTaskAsync";
+export { createTaskQueue } from "./taskQueue";
+
+// Types
+export type * from "./types";
+
+// Development tools
+export {
+  simulateBrixelInit,
+  listenToUITaskMessages,
+  createMockBrixelHost,
+  mockContext,
+} from "./devTools";
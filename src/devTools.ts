@@ -1,4 +1,21 @@
-import type { BrixelContext, RenderMode } from "./types";
+import type {
+  BrixelContext,
+  BrixelDesignTokens,
+  BrixelTaskOutcome,
+  CapabilityErrorCode,
+  CapabilityRequest,
+  ConfirmOptions,
+  FileRequestOptions,
+  JsonPatchOperation,
+  NotifyOptions,
+  OutputPortName,
+  PortOutput,
+  RenderMode,
+  SubtaskOptions,
+} from "./types";
+import { createFileAssembler, describeFile, sendFileChunks } from "./files";
+import type { FileAssembler } from "./files";
+import { applyJsonPatch } from "./patch";
 
 /**
  * Development tools for testing UI Tasks outside of Brixel
@@ -7,7 +24,8 @@ import type { BrixelContext, RenderMode } from "./types";
  */
 
 /**
- * Default mock context for development
+ * Default mock context for development. Capabilities added since the first
+ * release are off, as with hosts that predate them.
  */
 export const mockContext: BrixelContext = {
   runId: "dev-run-001",
@@ -27,6 +45,30 @@ export const mockContext: BrixelContext = {
     resize: true,
     fullscreen: true,
     fileUpload: false,
+    clipboard: false,
+    externalLinks: false,
+    fileDownload: false,
+    notifications: false,
+    dialogs: false,
+    subtasks: false,
+    tokenRefresh: false,
+  },
+};
+
+/** The mock host simulates every capability */
+const mockHostContext: BrixelContext = {
+  ...mockContext,
+  capabilities: {
+    resize: true,
+    fullscreen: true,
+    fileUpload: true,
+    clipboard: true,
+    externalLinks: true,
+    fileDownload: true,
+    notifications: true,
+    dialogs: true,
+    subtasks: true,
+    tokenRefresh: true,
   },
 };
 
@@ -117,21 +159,179 @@ export function listenToUITaskMessages(
  * // Send init
  * host.init({ title: "Test" });
  *
+ * // COMPLETE / CANCEL are acknowledged automatically; to test rejections:
+ * createMockBrixelHost({
+ *   rejectCompletion: (output) => (output.email ? undefined : "Email is required"),
+ * });
+ *
+ * // Capability requests (fullscreen, clipboard, links) succeed unless failed explicitly
+ * createMockBrixelHost({
+ *   failCapability: (request) =>
+ *     request.capability === "copyToClipboard" ? { code: "DENIED", message: "Clipboard blocked" } : undefined,
+ * });
+ *
+ * // Feed fixture files to requestFiles and inspect offered downloads
+ * createMockBrixelHost({
+ *   fileFixtures: [new File(["name,email\nAda,ada@example.com"], "contacts.csv", { type: "text/csv" })],
+ *   onDownload: (file) => console.log("Downloaded:", file.name),
+ * });
+ *
+ * // Confirm dialogs are auto-answered (default: confirmed)
+ * createMockBrixelHost({ confirmAnswer: (options) => !options.danger });
+ *
+ * // Subtasks resolve with a canned outcome (default: cancelled)
+ * createMockBrixelHost({
+ *   subtaskOutcome: { status: "completed", output: { street: "1 Main St" } },
+ * });
+ *
+ * // Token refresh (used by executeTask on 401) issues mock tokens by default
+ * createMockBrixelHost({ refreshToken: () => fetchDevToken() });
+ *
+ * // Restore drafts as after an iframe reload, and watch them being saved
+ * createMockBrixelHost({
+ *   savedState: { comment: "Half-written answer" },
+ *   onSaveState: (state) => console.log("Drafts:", state),
+ * });
+ *
+ * // Tasks with output ports report the port they completed through
+ * createMockBrixelHost({
+ *   onComplete: (output, port) => console.log(`Completed through "${port}":`, output),
+ * });
+ *
  * // Cleanup
  * host.destroy();
  * ```
  */
 export function createMockBrixelHost<TInputs = unknown, TOutput = unknown>(options: {
   onReady?: (version: string) => void;
-  onComplete?: (output: TOutput) => void;
+  onComplete?: (output: PortOutput<TOutput>, port?: OutputPortName<TOutput>) => void;
   onCancel?: (reason?: string) => void;
   onResize?: (height: number | "auto") => void;
   onLog?: (level: string, message: string, data?: unknown) => void;
   onError?: (error: { code: string; message: string; details?: unknown }) => void;
+  onProgress?: (progress: { percentage?: number; step?: string }) => void;
+  onPartialOutput?: (output: Partial<PortOutput<TOutput>>, sequence: number) => void;
+  /** Return a reason to answer BRIXEL_COMPLETE with BRIXEL_COMPLETE_REJECTED */
+  rejectCompletion?: (output: PortOutput<TOutput>, port?: OutputPortName<TOutput>) => string | undefined;
+  /** Return a reason to answer BRIXEL_CANCEL with BRIXEL_CANCEL_REJECTED */
+  rejectCancellation?: (reason?: string) => string | undefined;
+  /** Acknowledge COMPLETE / CANCEL and advertise it in INIT (default: true). Disable to test hosts that don't. */
+  acknowledge?: boolean;
+  /** Callback for capability requests (they are simulated, not performed) */
+  onCapabilityRequest?: (request: CapabilityRequest) => void;
+  /** Return an error to fail a capability request (default: succeed) */
+  failCapability?: (request: CapabilityRequest) => { code: CapabilityErrorCode; message: string } | undefined;
+  /**
+   * Files "picked" for requestFiles (default: none, as if the picker was dismissed).
+   * Sent chunked, like a real host.
+   */
+  fileFixtures?: File[] | ((options: FileRequestOptions) => File[] | Promise<File[]>);
+  /** Callback when the UI Task offers a file with offerDownload */
+  onDownload?: (file: File) => void;
+  /** Callback when the UI Task shows a notification */
+  onNotify?: (notification: NotifyOptions) => void;
+  /** Callback when the UI Task asks for confirmation */
+  onConfirm?: (options: ConfirmOptions) => void;
+  /** Answer to confirm requests (default: true) */
+  confirmAnswer?: boolean | ((options: ConfirmOptions) => boolean | Promise<boolean>);
+  /** Callback when the UI Task opens a subtask */
+  onOpenSubtask?: (subtask: SubtaskOptions) => void;
+  /** Outcome of subtasks (default: cancelled) */
+  subtaskOutcome?: BrixelTaskOutcome | ((subtask: SubtaskOptions) => BrixelTaskOutcome | Promise<BrixelTaskOutcome>);
+  /** Issue tokens for BRIXEL_REQUEST_TOKEN (default: "mock-token-<n>") */
+  refreshToken?: () => string | Promise<string>;
+  /** Drafts sent with INIT, as if the iframe had reloaded */
+  savedState?: Record<string, unknown>;
+  /** Callback when the UI Task saves its drafts */
+  onSaveState?: (state: Record<string, unknown>) => void;
+  /** Callback when the UI Task acknowledges BRIXEL_DESTROY */
+  onDestroyAck?: () => void;
 }) {
-  const { onReady, onComplete, onCancel, onResize, onLog, onError } = options;
+  const {
+    onReady,
+    onComplete,
+    onCancel,
+    onResize,
+    onLog,
+    onError,
+    onProgress,
+    onPartialOutput,
+    rejectCompletion,
+    rejectCancellation,
+    acknowledge = true,
+    onCapabilityRequest,
+    failCapability,
+    fileFixtures = [],
+    onDownload,
+    onNotify,
+    onConfirm,
+    confirmAnswer = true,
+    onOpenSubtask,
+    subtaskOutcome = { status: "cancelled", reason: "Subtasks are simulated by the mock host" },
+    refreshToken,
+    savedState,
+    onSaveState,
+    onDestroyAck,
+  } = options;
 
   let currentRunId: string | null = null;
+  let tokensIssued = 0;
+  // Kept to answer BRIXEL_REQUEST_INPUTS
+  let currentInputs: TInputs | null = null;
+  let inputsRevision = 0;
+
+  // Answer a COMPLETE / CANCEL; returns whether it was accepted
+  const reply = (
+    action: "COMPLETE" | "CANCEL",
+    payload: { runId: string; requestId?: string },
+    rejection: string | undefined
+  ): boolean => {
+    if (acknowledge && payload.requestId) {
+      window.postMessage(
+        {
+          type: rejection ? `BRIXEL_${action}_REJECTED` : `BRIXEL_${action}_ACK`,
+          payload: { runId: payload.runId, requestId: payload.requestId, reason: rejection },
+        },
+        "*"
+      );
+    }
+    if (rejection) {
+      console.log(`[MockHost] Rejected ${action}:`, rejection);
+    }
+    return !rejection;
+  };
+  const sendFixtures = async (runId: string, requestId: string, request: FileRequestOptions) => {
+    const picked = typeof fileFixtures === "function" ? await fileFixtures(request) : fileFixtures;
+    const files = request.multiple ? picked : picked.slice(0, 1);
+    console.log("[MockHost] Simulated file picker:", files.map((file) => file.name));
+
+    window.postMessage(
+      { type: "BRIXEL_FILE_RESULT", payload: { runId, requestId, files: files.map((file) => describeFile(file)) } },
+      "*"
+    );
+    await sendFileChunks(files, (index, offset, data) => {
+      window.postMessage({ type: "BRIXEL_FILE_CHUNK", payload: { runId, requestId, index, offset, data } }, "*", [
+        data,
+      ]);
+    });
+  };
+  const downloads = new Map<string, FileAssembler>();
+  const finishDownload = (runId: string, requestId: string, assembler: FileAssembler) => {
+    downloads.delete(requestId);
+    const [file] = assembler.files();
+    console.log("[MockHost] Simulated download:", file.name, file.size);
+    onDownload?.(file);
+    window.postMessage({ type: "BRIXEL_DOWNLOAD_RESULT", payload: { runId, requestId } }, "*");
+  };
+
+  // Retries re-send the same requestId: only report each request once
+  const seenRequests = new Set<string>();
+  const isRetry = (requestId?: string) => {
+    if (!requestId) return false;
+    if (seenRequests.has(requestId)) return true;
+    seenRequests.add(requestId);
+    return false;
+  };
 
   const handleMessage = (event: MessageEvent) => {
     const message = event.data;
@@ -143,12 +343,23 @@ export function createMockBrixelHost<TInputs = unknown, TOutput = unknown>(optio
       case "BRIXEL_READY":
         onReady?.(message.payload?.version);
         break;
-      case "BRIXEL_COMPLETE":
-        onComplete?.(message.payload?.output);
+      case "BRIXEL_COMPLETE": {
+        if (isRetry(message.payload?.requestId)) break;
+        const { output, port } = message.payload ?? {};
+        const rejection = rejectCompletion?.(output, port);
+        if (reply("COMPLETE", message.payload, rejection)) {
+          onComplete?.(output, port);
+        }
         break;
-      case "BRIXEL_CANCEL":
-        onCancel?.(message.payload?.reason);
+      }
+      case "BRIXEL_CANCEL": {
+        if (isRetry(message.payload?.requestId)) break;
+        const rejection = rejectCancellation?.(message.payload?.reason);
+        if (reply("CANCEL", message.payload, rejection)) {
+          onCancel?.(message.payload?.reason);
+        }
         break;
+      }
       case "BRIXEL_RESIZE":
         onResize?.(message.payload?.height);
         break;
@@ -158,6 +369,116 @@ export function createMockBrixelHost<TInputs = unknown, TOutput = unknown>(optio
       case "BRIXEL_ERROR":
         onError?.(message.payload?.error);
         break;
+      case "BRIXEL_PROGRESS":
+        onProgress?.({ percentage: message.payload?.percentage, step: message.payload?.step });
+        break;
+      case "BRIXEL_PARTIAL_OUTPUT":
+        onPartialOutput?.(message.payload?.output, message.payload?.sequence);
+        break;
+      case "BRIXEL_CAPABILITY_REQUEST": {
+        const { runId, requestId, ...request } = message.payload ?? {};
+        onCapabilityRequest?.(request);
+        const error = failCapability?.(request);
+        console.log(`[MockHost] Simulated ${request.capability}`, error ?? "");
+        window.postMessage({ type: "BRIXEL_CAPABILITY_RESULT", payload: { runId, requestId, error } }, "*");
+        break;
+      }
+      case "BRIXEL_NOTIFY": {
+        const { runId: _runId, ...notification } = message.payload ?? {};
+        console.log(`[MockHost] Notification (${notification.level ?? "info"}):`, notification.message);
+        onNotify?.(notification);
+        break;
+      }
+      case "BRIXEL_CONFIRM_REQUEST": {
+        const { runId, requestId, ...request } = message.payload ?? {};
+        onConfirm?.(request);
+        void Promise.resolve(typeof confirmAnswer === "function" ? confirmAnswer(request) : confirmAnswer).then(
+          (confirmed) => {
+            console.log("[MockHost] Auto-answered confirm:", confirmed);
+            window.postMessage({ type: "BRIXEL_CONFIRM_RESULT", payload: { runId, requestId, confirmed } }, "*");
+          }
+        );
+        break;
+      }
+      case "BRIXEL_OPEN_SUBTASK": {
+        const { runId, requestId, conversationId: _conversationId, ...subtask } = message.payload ?? {};
+        onOpenSubtask?.(subtask);
+        void Promise.resolve(typeof subtaskOutcome === "function" ? subtaskOutcome(subtask) : subtaskOutcome).then(
+          (outcome) => {
+            console.log(`[MockHost] Simulated subtask ${subtask.taskUuid}:`, outcome);
+            window.postMessage({ type: "BRIXEL_SUBTASK_RESULT", payload: { runId, requestId, outcome } }, "*");
+          }
+        );
+        break;
+      }
+      case "BRIXEL_REQUEST_INPUTS": {
+        const { runId } = message.payload ?? {};
+        console.log("[MockHost] Resync requested, sending full inputs");
+        window.postMessage(
+          {
+            type: "BRIXEL_UPDATE_INPUTS",
+            payload: { runId, inputs: currentInputs, revision: inputsRevision, replace: true },
+          },
+          "*"
+        );
+        break;
+      }
+      case "BRIXEL_REQUEST_TOKEN": {
+        const { runId, requestId } = message.payload ?? {};
+        void Promise.resolve()
+          .then(() => refreshToken?.() ?? `mock-token-${++tokensIssued}`)
+          .then(
+            (apiToken) => {
+              console.log("[MockHost] Issued token:", apiToken);
+              window.postMessage({ type: "BRIXEL_TOKEN_RESULT", payload: { runId, requestId, apiToken } }, "*");
+            },
+            (error) => {
+              const failure = { code: "DENIED", message: error instanceof Error ? error.message : String(error) };
+              window.postMessage({ type: "BRIXEL_TOKEN_RESULT", payload: { runId, requestId, error: failure } }, "*");
+            }
+          );
+        break;
+      }
+      case "BRIXEL_SAVE_STATE":
+        console.log("[MockHost] Drafts saved:", message.payload?.state);
+        onSaveState?.(message.payload?.state);
+        break;
+      case "BRIXEL_FILE_REQUEST": {
+        const { runId, requestId, ...request } = message.payload ?? {};
+        void sendFixtures(runId, requestId, request);
+        break;
+      }
+      case "BRIXEL_DOWNLOAD": {
+        const { runId, requestId, file } = message.payload ?? {};
+        const assembler = createFileAssembler([file]);
+        if (assembler.isComplete()) {
+          finishDownload(runId, requestId, assembler);
+        } else {
+          downloads.set(requestId, assembler);
+        }
+        break;
+      }
+      case "BRIXEL_DOWNLOAD_CHUNK": {
+        const { runId, requestId, offset, data } = message.payload ?? {};
+        const assembler = downloads.get(requestId);
+        if (assembler?.add(0, offset, data) && assembler.isComplete()) {
+          finishDownload(runId, requestId, assembler);
+        }
+        break;
+      }
+      case "BRIXEL_DESTROY_ACK":
+        onDestroyAck?.();
+        window.removeEventListener("message", handleMessage);
+        break;
+      case "BRIXEL_PING":
+        window.postMessage(
+          {
+            type: "BRIXEL_PONG",
+            payload: { runId: message.payload?.runId, pingId: message.payload?.pingId },
+          },
+          "*"
+        );
+        break;
     }
   };
 
@@ -166,14 +487,19 @@ export function createMockBrixelHost<TInputs = unknown, TOutput = unknown>(optio
   return {
     init(inputs: TInputs, runId = "mock-run-001", renderMode: RenderMode = "interaction") {
       currentRunId = runId;
+      currentInputs = inputs;
+      inputsRevision = 0;
       window.postMessage(
         {
           type: "BRIXEL_INIT",
           payload: {
             runId,
             inputs,
-            context: mockContext,
+            context: mockHostContext,
             renderMode,
+            inputsRevision,
+            savedState,
+            settlementAcks: acknowledge,
           },
         },
         "*"
@@ -185,10 +511,51 @@ export function createMockBrixelHost<TInputs = unknown, TOutput = unknown>(optio
         console.warn("[MockHost] Cannot update inputs - no active run");
         return;
       }
+      currentInputs = { ...currentInputs, ...inputs } as TInputs;
+      window.postMessage(
+        {
+          type: "BRIXEL_UPDATE_INPUTS",
+          payload: { runId: currentRunId, inputs, revision: ++inputsRevision },
+        },
+        "*"
+      );
+    },
+
+    replaceInputs(inputs: TInputs) {
+      if (!currentRunId) {
+        console.warn("[MockHost] Cannot replace inputs - no active run");
+        return;
+      }
+      currentInputs = inputs;
       window.postMessage(
         {
           type: "BRIXEL_UPDATE_INPUTS",
-          payload: { runId: currentRunId, inputs },
+          payload: { runId: currentRunId, inputs, revision: ++inputsRevision, replace: true },
+        },
+        "*"
+      );
+    },
+
+    /**
+     * Send JSON Patch operations. Pass `skipRevision` to simulate a lost patch:
+     * the task should then ask for a resync.
+     */
+    patchInputs(operations: JsonPatchOperation[], { skipRevision = false } = {}) {
+      if (!currentRunId) {
+        console.warn("[MockHost] Cannot patch inputs - no active run");
+        return;
+      }
+      const patched = applyJsonPatch(currentInputs, operations);
+      if (!patched.ok) {
+        console.warn("[MockHost] Patch not applied:", patched.error);
+        return;
+      }
+      currentInputs = patched.value;
+      inputsRevision += skipRevision ? 2 : 1;
+      window.postMessage(
+        {
+          type: "BRIXEL_PATCH_INPUTS",
+          payload: { runId: currentRunId, operations, revision: inputsRevision },
         },
         "*"
       );
@@ -203,12 +570,14 @@ export function createMockBrixelHost<TInputs = unknown, TOutput = unknown>(optio
           },
           "*"
         );
+        // Keep listening for BRIXEL_DESTROY_ACK (removed when it arrives)
+      } else {
+        window.removeEventListener("message", handleMessage);
       }
-      window.removeEventListener("message", handleMessage);
       currentRunId = null;
     },
 
-    updateTheme(theme: BrixelContext["theme"]) {
+    updateTheme(theme: BrixelContext["theme"], designTokens?: BrixelDesignTokens) {
       if (!currentRunId) {
         console.warn("[MockHost] Cannot update theme - no active run");
         return;
@@ -216,7 +585,7 @@ export function createMockBrixelHost<TInputs = unknown, TOutput = unknown>(optio
       window.postMessage(
         {
           type: "BRIXEL_UPDATE_THEME",
-          payload: { runId: currentRunId, theme },
+          payload: { runId: currentRunId, theme, designTokens },
         },
         "*"
       );
@@ -235,5 +604,19 @@ export function createMockBrixelHost<TInputs = unknown, TOutput = unknown>(optio
         "*"
       );
     },
+
+    updateContext(context: Partial<BrixelContext>) {
+      if (!currentRunId) {
+        console.warn("[MockHost] Cannot update context - no active run");
+        return;
+      }
+      window.postMessage(
+        {
+          type: "BRIXEL_UPDATE_CONTEXT",
+          payload: { runId: currentRunId, context },
+        },
+        "*"
+      );
+    },
   };
 }
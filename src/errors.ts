@@ -0,0 +1,52 @@
+import type { BrixelCapability, CapabilityErrorCode, SerializedError } from "./types";
+
+/**
+ * Turn any thrown value into a structured-clone-safe object (Error instances
+ * lose their stack and cause when posted as-is)
+ */
+export function serializeError(error: unknown, depth = 0): SerializedError {
+  if (error instanceof Error) {
+    const { cause } = error as Error & { cause?: unknown };
+    return {
+      name: error.name,
+      message: error.message,
+      stack: error.stack,
+      // Guard against cyclic causes
+      cause: cause !== undefined && depth < 3 ? serializeError(cause, depth + 1) : undefined,
+    };
+  }
+
+  let message: string;
+  try {
+    message = typeof error === "string" ? error : JSON.stringify(error) ?? String(error);
+  } catch {
+    message = String(error);
+  }
+  return { name: "NonError", message };
+}
+
+/**
+ * Rejection of `requestFullscreen`, `exitFullscreen`, `copyToClipboard` and `openExternalUrl`
+ *
+ * @example
+ * ```ts
+ * try {
+ *   await copyToClipboard(code);
+ * } catch (error) {
+ *   if (error instanceof BrixelCapabilityError && error.code === "UNSUPPORTED") {
+ *     showCopyManuallyHint();
+ *   }
+ * }
+ * ```
+ */
+export class BrixelCapabilityError extends Error {
+  readonly capability: BrixelCapability;
+  readonly code: CapabilityErrorCode;
+
+  constructor(capability: BrixelCapability, code: CapabilityErrorCode, message: string) {
+    super(message);
+    this.name = "BrixelCapabilityError";
+    this.capability = capability;
+    this.code = code;
+  }
+}
@@ -0,0 +1,161 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { executeTask } from "./executeTask";
+
+/** A server that answers after `delayMs`, unless the request is aborted first */
+function slowServer(delayMs: number) {
+  return vi.fn(
+    (_url: string, init: RequestInit) =>
+      new Promise<Response>((resolve, reject) => {
+        const timer = setTimeout(() => resolve(Response.json({ answer: 42 })), delayMs);
+        init.signal?.addEventListener("abort", () => {
+          clearTimeout(timer);
+          reject(new DOMException("Aborted", "AbortError"));
+        });
+      })
+  );
+}
+
+/** A server answering with `responses` in turn */
+function server(...responses: (() => Response)[]) {
+  return vi.fn(async () => {
+    const next = responses.shift();
+    if (!next) throw new Error("Unexpected request");
+    return next();
+  });
+}
+
+const json = (status: number, body: unknown, headers: Record<string, string> = {}) => () =>
+  Response.json(body, { status, headers });
+
+const params = { taskUuid: "task-1", inputs: {}, apiBaseUrl: "https://api.test" };
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe("executeTask timeout", () => {
+  it("waits for long executions by default", async () => {
+    vi.stubGlobal("fetch", slowServer(120_000));
+    const result = executeTask(params);
+    await vi.advanceTimersByTimeAsync(120_000);
+    await expect(result).resolves.toEqual({ success: true, data: { answer: 42 } });
+  });
+
+  it("gives up after timeoutMs when set", async () => {
+    vi.stubGlobal("fetch", slowServer(120_000));
+    const result = executeTask({ ...params, timeoutMs: 1_000 });
+    await vi.advanceTimersByTimeAsync(1_000);
+    await expect(result).resolves.toMatchObject({ success: false, error: { code: "TIMEOUT" } });
+  });
+});
+
+describe("executeTask retries", () => {
+  beforeEach(() => {
+    // Full jitter at its maximum: the backoff is base * 2^(retry - 1)
+    vi.spyOn(Math, "random").mockReturnValue(1);
+  });
+
+  it("retries 429 and 503 with exponential backoff", async () => {
+    const fetch = server(json(429, {}), json(503, {}), json(200, { answer: 42 }));
+    vi.stubGlobal("fetch", fetch);
+    const result = executeTask(params);
+
+    await vi.advanceTimersByTimeAsync(499);
+    expect(fetch).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(fetch).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1_000);
+    await expect(result).resolves.toEqual({ success: true, data: { answer: 42 } });
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it("waits for Retry-After", async () => {
+    const fetch = server(json(429, {}, { "Retry-After": "5" }), json(200, { answer: 42 }));
+    vi.stubGlobal("fetch", fetch);
+    const result = executeTask(params);
+
+    await vi.advanceTimersByTimeAsync(4_999);
+    expect(fetch).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    await expect(result).resolves.toEqual({ success: true, data: { answer: 42 } });
+  });
+
+  it("returns the error when Retry-After is longer than a minute", async () => {
+    const fetch = server(json(503, { code: "MAINTENANCE", message: "Back soon" }, { "Retry-After": "3600" }));
+    vi.stubGlobal("fetch", fetch);
+
+    await expect(executeTask(params)).resolves.toEqual({
+      success: false,
+      error: { code: "MAINTENANCE", message: "Back soon", status: 503, attempts: 1, details: expect.anything() },
+    });
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("gives up after the configured retries", async () => {
+    vi.stubGlobal("fetch", server(json(429, {}), json(429, {}), json(429, {})));
+    const result = executeTask(params);
+    await vi.runAllTimersAsync();
+    await expect(result).resolves.toMatchObject({ success: false, error: { code: "HTTP_429", attempts: 3 } });
+  });
+
+  it("doesn't retry a 500 unless the task is idempotent", async () => {
+    const fetch = server(json(500, {}));
+    vi.stubGlobal("fetch", fetch);
+    await expect(executeTask(params)).resolves.toMatchObject({
+      success: false,
+      error: { code: "HTTP_500", status: 500, attempts: 1 },
+    });
+    expect(fetch).toHaveBeenCalledTimes(1);
+
+    vi.stubGlobal("fetch", server(json(500, {}), json(200, { answer: 42 })));
+    const result = executeTask({ ...params, idempotent: true });
+    await vi.runAllTimersAsync();
+    await expect(result).resolves.toEqual({ success: true, data: { answer: 42 } });
+  });
+
+  it("maps a non-JSON error body to a typed error", async () => {
+    const gateway = () =>
+      new Response("<html>Bad Gateway</html>", { status: 502, headers: { "Content-Type": "text/html" } });
+    vi.stubGlobal("fetch", server(gateway));
+
+    await expect(executeTask(params)).resolves.toEqual({
+      success: false,
+      error: {
+        code: "HTTP_502",
+        message: "Request failed with status 502",
+        status: 502,
+        attempts: 1,
+        details: "<html>Bad Gateway</html>",
+      },
+    });
+  });
+
+  it("maps 401 to UNAUTHORIZED without retrying", async () => {
+    const fetch = server(json(401, { code: "TOKEN_EXPIRED", message: "Token expired" }));
+    vi.stubGlobal("fetch", fetch);
+    await expect(executeTask({ ...params, idempotent: true })).resolves.toMatchObject({
+      success: false,
+      error: { code: "UNAUTHORIZED", message: "Token expired", status: 401 },
+    });
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("stops when aborted during the backoff", async () => {
+    const fetch = server(json(503, {}), json(200, { answer: 42 }));
+    vi.stubGlobal("fetch", fetch);
+    const controller = new AbortController();
+    const result = executeTask({ ...params, signal: controller.signal });
+
+    await vi.advanceTimersByTimeAsync(100);
+    controller.abort();
+    await expect(result).resolves.toMatchObject({ success: false, error: { code: "ABORTED", attempts: 1 } });
+    await vi.runAllTimersAsync();
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+});
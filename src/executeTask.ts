@@ -1,19 +1,253 @@
-import type { ExecuteTaskParams, ExecuteTaskResponse } from "./types";
+import type { ExecuteTaskError, ExecuteTaskParams, ExecuteTaskResponse } from "./types";
+import { debugRequest, resolveEndpoint } from "./config";
+
+/** Synchronous executions last as long as the task runs: no timeout unless asked for */
+const DEFAULT_TIMEOUT_MS = 0;
+const DEFAULT_RETRIES = 2;
+const DEFAULT_RETRY_BASE_DELAY_MS = 500;
+const DEFAULT_RETRY_MAX_DELAY_MS = 10_000;
+/** Longest Retry-After we are willing to wait; beyond it the error is returned */
+const MAX_RETRY_AFTER_MS = 60_000;
+
+/** The server asks to come back later: nothing was executed, always safe to retry */
+const RETRY_LATER_STATUSES = new Set([429, 503]);
+/** The task may or may not have run: only retried for idempotent tasks */
+const TRANSIENT_STATUSES = new Set([408, 500, 502, 504]);
+
+export type ExecuteTaskFailure = Extract<ExecuteTaskResponse, { success: false }>;
+
+interface AttemptResult<TOutput> {
+  response: ExecuteTaskResponse<TOutput>;
+  retryable: boolean;
+  retryAfterMs?: number;
+}
+
+export function failure(
+  code: ExecuteTaskError["code"],
+  message: string,
+  extra: Partial<Omit<ExecuteTaskError, "code" | "message">> = {}
+): ExecuteTaskFailure {
+  return { success: false, error: { code, message, attempts: 1, ...extra } };
+}
+
+/**
+ * Retry-After as milliseconds (delta-seconds or HTTP date)
+ */
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Exponential backoff with full jitter
+ */
+function backoffDelay(retry: number, baseDelayMs: number, maxDelayMs: number): number {
+  return Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** (retry - 1));
+}
+
+/**
+ * Wait, unless the signal aborts first. Resolves false when aborted.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<boolean> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) {
+      resolve(false);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve(false);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve(true);
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Read the body according to its content type. Non-JSON bodies are returned as text.
+ */
+async function readBody(response: Response): Promise<{ json: true; value: unknown } | { json: false; text: string }> {
+  const contentType = response.headers.get("content-type") ?? "";
+  const text = await response.text();
+  if (!/[/+]json\b/i.test(contentType)) {
+    return { json: false, text };
+  }
+  // Empty JSON bodies (e.g. 204) are treated as null
+  return { json: true, value: text === "" ? null : JSON.parse(text) };
+}
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
+}
+
+async function attemptRequest<TOutput>(
+  url: string,
+  init: RequestInit,
+  timeoutMs: number,
+  signal: AbortSignal | undefined,
+  idempotent: boolean
+): Promise<AttemptResult<TOutput>> {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer =
+    timeoutMs > 0
+      ? setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, timeoutMs)
+      : undefined;
+  const onAbort = () => controller.abort();
+  signal?.addEventListener("abort", onAbort, { once: true });
+
+  try {
+    const response = await fetch(url, { ...init, signal: controller.signal });
+
+    let body: Awaited<ReturnType<typeof readBody>>;
+    try {
+      body = await readBody(response);
+    } catch (error) {
+      if (controller.signal.aborted) throw error;
+      return {
+        response: failure("INVALID_RESPONSE", "The server returned malformed JSON", {
+          status: response.status,
+          details: error instanceof Error ? error.message : error,
+        }),
+        retryable: false,
+      };
+    }
+
+    if (response.ok) {
+      if (!body.json) {
+        return {
+          response: failure(
+            "INVALID_RESPONSE",
+            `Expected JSON, got ${response.headers.get("content-type") || "a response without content type"}`,
+            { status: response.status, details: body.text.slice(0, 500) }
+          ),
+          retryable: false,
+        };
+      }
+      return { response: { success: true, data: body.value as TOutput }, retryable: false };
+    }
+
+    const data = body.json && isRecord(body.value) ? body.value : {};
+    const code =
+      response.status === 401
+        ? "UNAUTHORIZED"
+        : typeof data.code === "string"
+          ? data.code
+          : `HTTP_${response.status}`;
+    const message =
+      typeof data.message === "string" ? data.message : `Request failed with status ${response.status}`;
+
+    return {
+      response: failure(code, message, {
+        status: response.status,
+        details: body.json ? (data.details ?? body.value) : body.text.slice(0, 500),
+      }),
+      retryable:
+        RETRY_LATER_STATUSES.has(response.status) || (idempotent && TRANSIENT_STATUSES.has(response.status)),
+      retryAfterMs: parseRetryAfter(response.headers.get("retry-after")),
+    };
+  } catch (error) {
+    if (timedOut) {
+      return {
+        response: failure("TIMEOUT", `No response within ${timeoutMs}ms`),
+        retryable: idempotent,
+      };
+    }
+    if (signal?.aborted) {
+      return { response: failure("ABORTED", "The request was aborted"), retryable: false };
+    }
+    return {
+      response: failure("NETWORK_ERROR", error instanceof Error ? error.message : "Unknown error occurred", {
+        details: error,
+      }),
+      retryable: idempotent,
+    };
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", onAbort);
+  }
+}
+
+/**
+ * Headers and credentials shared by every call to the Brixel API
+ */
+export function authorizedInit({
+  apiToken,
+  conversationId,
+}: Pick<ExecuteTaskParams, "apiToken" | "conversationId">): RequestInit {
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+    Accept: "application/json",
+  };
+
+  // Add Bearer token if provided (RECOMMENDED)
+  if (apiToken) {
+    headers["Authorization"] = `Bearer ${apiToken}`;
+  }
+
+  // Add conversation ID header if provided
+  if (conversationId) {
+    headers["x-conversation-id"] = conversationId;
+  }
+
+  return {
+    headers,
+    // Include cookies as fallback if no explicit token provided
+    credentials: apiToken ? "same-origin" : "include",
+  };
+}
 
 /**
- * Get the API base URL based on the environment
- * - Development (localhost): http://localhost:8000/backoffice/ui-components
- * - Production: https://api.brixel.ai/backoffice/ui-components
+ * Send a request, retrying it according to the retry policy
  */
-function getApiBaseUrl(): string {
-  // Check if running in development (localhost)
-  if (typeof window !== 'undefined') {
-    const hostname = window.location.hostname;
-    if (hostname === 'localhost' || hostname === '127.0.0.1') {
-      return "http://localhost:8000/backoffice/ui-components";
+export async function requestWithRetry<TOutput>(
+  url: string,
+  init: RequestInit,
+  {
+    signal,
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    retry = {},
+    idempotent = false,
+  }: Pick<ExecuteTaskParams, "signal" | "timeoutMs" | "retry" | "idempotent">
+): Promise<ExecuteTaskResponse<TOutput>> {
+  const {
+    retries = DEFAULT_RETRIES,
+    baseDelayMs = DEFAULT_RETRY_BASE_DELAY_MS,
+    maxDelayMs = DEFAULT_RETRY_MAX_DELAY_MS,
+  } = retry === false ? { retries: 0 } : retry;
+
+  for (let attempt = 1; ; attempt++) {
+    if (signal?.aborted) {
+      return failure("ABORTED", "The request was aborted", { attempts: attempt });
+    }
+
+    const { response, retryable, retryAfterMs } = await attemptRequest<TOutput>(
+      url,
+      init,
+      timeoutMs,
+      signal,
+      idempotent
+    );
+
+    if (response.success) return response;
+    response.error.attempts = attempt;
+    if (!retryable || attempt > retries) return response;
+
+    const delayMs = retryAfterMs ?? backoffDelay(attempt, baseDelayMs, maxDelayMs);
+    if (delayMs > MAX_RETRY_AFTER_MS) return response;
+    if (!(await sleep(delayMs, signal))) {
+      return failure("ABORTED", "The request was aborted", { attempts: attempt });
     }
   }
-  return "https://api.brixel.ai/backoffice/ui-components";
 }
 
 /**
@@ -21,10 +255,11 @@ function getApiBaseUrl(): string {
  *
  * This function allows UI Tasks to programmatically execute other UI Tasks.
  *
- * **API URL auto-detection:**
- * - Development (localhost): http://localhost:8000/backoffice/ui-components
- * - Production: https://api.brixel.ai/backoffice/ui-components
- * - Can be overridden via `apiBaseUrl` parameter
+ * **API URL (in order of priority):**
+ * 1. `apiBaseUrl` parameter (set from `context.apiBaseUrl` by the hook's `executeTask`)
+ * 2. `configureBrixel({ apiBaseUrl })`, then `configureBrixel({ environment })`
+ * 3. Auto-detection: http://localhost:8000/backoffice/ui-components on localhost,
+ *    https://api.brixel.ai/backoffice/ui-components elsewhere
  *
  * **Authentication strategy (in order of priority):**
  * 1. **API Token from context** (RECOMMENDED): Passed via postMessage from parent
@@ -33,6 +268,10 @@ function getApiBaseUrl(): string {
  * 2. **Cookies fallback**: Uses credentials: 'include' if no token provided
  *    - Works for same-domain scenarios (*.brixel.ai)
  *
+ * **Retries:** 429 and 503 responses are retried with exponential backoff and
+ * jitter, honoring `Retry-After`. Timeouts, network errors and 408/500/502/504 may
+ * mean the task already ran, so they are only retried with `idempotent: true`.
+ *
  * @example
  * ```tsx
  * import { executeTask } from "@brixel/ui-task-sdk";
@@ -42,6 +281,7 @@ function getApiBaseUrl(): string {
  *   taskUuid: "task-123-456",
  *   inputs: { name: "John", email: "john@example.com" },
  *   apiToken: context?.apiToken, // Token passed by parent
+ *   timeoutMs: 10_000,
  * });
  *
  * // Or let the hook bind it automatically
@@ -53,83 +293,36 @@ function getApiBaseUrl(): string {
  *
  * if (result.success) {
  *   console.log("Task executed:", result.data);
+ * } else if (result.error.code === "UNAUTHORIZED") {
+ *   // Ask the host for a fresh token
  * } else {
  *   console.error("Error:", result.error);
  * }
  * ```
  *
  * @param params - Parameters for executing the task
- * @returns Promise with the execution result
+ * @returns Promise with the execution result (never rejects)
  */
 export async function executeTask<TOutput = unknown>(
   params: ExecuteTaskParams
 ): Promise<ExecuteTaskResponse<TOutput>> {
-  const { taskUuid, inputs, conversationId, apiToken, apiBaseUrl } = params;
+  const { taskUuid, inputs, apiBaseUrl } = params;
 
-  // Use custom API URL if provided, otherwise auto-detect
-  const baseUrl = apiBaseUrl || getApiBaseUrl();
+  const url = resolveEndpoint("executeTask", apiBaseUrl);
+  debugRequest("POST", url, apiBaseUrl);
 
-  // Log the API URL in development
-  if (typeof window !== 'undefined' &&
-    (window.location.hostname === 'localhost' || window.location.hostname === '127.0.0.1')) {
-  }
-
-  try {
-    // Build headers
-    const headers: Record<string, string> = {
-      "Content-Type": "application/json",
-    };
-
-    // Add Bearer token if provided (RECOMMENDED)
-    if (apiToken) {
-      headers["Authorization"] = `Bearer ${apiToken}`;
-    }
-
-    // Add conversation ID header if provided
-    if (conversationId) {
-      headers["x-conversation-id"] = conversationId;
-    }
-
-    // Make API request
-    const response = await fetch(`${baseUrl}/execute_task`, {
+  return requestWithRetry<TOutput>(
+    url,
+    {
       method: "POST",
-      headers,
-      // Include cookies as fallback if no explicit token provided
-      credentials: apiToken ? "same-origin" : "include",
+      ...authorizedInit(params),
       body: JSON.stringify({
         task_uuid: taskUuid,
         inputs,
       }),
-    });
-
-    // Parse response
-    const data = await response.json();
-
-    if (!response.ok) {
-      return {
-        success: false,
-        error: {
-          code: data.code || `HTTP_${response.status}`,
-          message: data.message || `Request failed with status ${response.status}`,
-          details: data.details || data,
-        },
-      };
-    }
-
-    return {
-      success: true,
-      data: data as TOutput,
-    };
-  } catch (error) {
-    return {
-      success: false,
-      error: {
-        code: "NETWORK_ERROR",
-        message: error instanceof Error ? error.message : "Unknown error occurred",
-        details: error,
-      },
-    };
-  }
+    },
+    params
+  );
 }
 
 /**
@@ -143,7 +336,8 @@ export async function executeTask<TOutput = unknown>(
  * const { context } = useBrixelTask();
  * const boundExecuteTask = createExecuteTask({
  *   apiToken: context?.apiToken,
- *   conversationId: context?.conversationId
+ *   conversationId: context?.conversationId,
+ *   apiBaseUrl: context?.apiBaseUrl,
  * });
  *
  * // Now you can call it without passing auth each time
@@ -0,0 +1,202 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { executeTaskAsync } from "./executeTaskAsync";
+import type { TaskExecution, TaskExecutionProgress } from "./types";
+
+type Route = () => Response | Promise<Response>;
+
+/**
+ * A job API: each route ("METHOD /path") answers with its responses in turn, the
+ * last one repeating. `requests` lists the routes called.
+ */
+function stubApi(routes: Record<string, Route | Route[]>) {
+  const requests: string[] = [];
+  vi.stubGlobal(
+    "fetch",
+    vi.fn(async (url: string, init: RequestInit) => {
+      const route = `${init.method} ${url.replace("https://api.test", "")}`;
+      requests.push(route);
+      const handler = routes[route];
+      if (!handler) return Response.json({}, { status: 404 });
+      return Array.isArray(handler) ? (handler.length > 1 ? handler.shift()! : handler[0])() : handler();
+    })
+  );
+  return requests;
+}
+
+const json = (body: unknown) => () => Response.json(body);
+
+/** A text/event-stream response sending `chunks` as they are */
+const events = (...chunks: string[]) => () => {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach((chunk) => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    },
+  });
+  return new Response(body, { headers: { "Content-Type": "text/event-stream" } });
+};
+
+const params = { taskUuid: "task-1", inputs: {}, apiBaseUrl: "https://api.test" };
+const submitted = { "POST /execute_task_async": json({ job_id: "job-1" }) };
+
+async function collect(execution: TaskExecution): Promise<TaskExecutionProgress[]> {
+  const progress: TaskExecutionProgress[] = [];
+  for await (const step of execution) progress.push(step);
+  return progress;
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe("executeTaskAsync with server-sent events", () => {
+  it("follows the job until it settles, yielding every change", async () => {
+    stubApi({
+      ...submitted,
+      "GET /jobs/job-1/events": events(
+        ": keep-alive\n\n",
+        'data: {"status":"running","progress":{"percentage":50,',
+        '"step":"Parsing"}}\r\n\r\n',
+        'event: job\ndata: {"status":"completed",\ndata: "data":{"rows":3}}\n\n'
+      ),
+    });
+    const execution = executeTaskAsync<{ rows: number }>(params);
+
+    await expect(collect(execution)).resolves.toEqual([
+      { status: "submitting" },
+      { status: "queued" },
+      { status: "running", percentage: 50, step: "Parsing" },
+      { status: "completed", percentage: 50, step: "Parsing" },
+    ]);
+    await expect(execution.result).resolves.toEqual({ success: true, data: { rows: 3 } });
+    expect(execution.jobId).toBe("job-1");
+  });
+
+  it("resolves with the error of a failed job", async () => {
+    stubApi({
+      ...submitted,
+      "GET /jobs/job-1/events": events(
+        'data: {"status":"failed","error":{"code":"BAD_FILE","message":"Unreadable"}}\n\n'
+      ),
+    });
+    await expect(executeTaskAsync(params).result).resolves.toMatchObject({
+      success: false,
+      error: { code: "BAD_FILE", message: "Unreadable" },
+    });
+  });
+
+  it("falls back to polling when the stream is unavailable", async () => {
+    const requests = stubApi({ ...submitted, "GET /jobs/job-1": json({ status: "completed", data: 42 }) });
+    const execution = executeTaskAsync({ ...params, pollIntervalMs: 1 });
+
+    await expect(execution.result).resolves.toEqual({ success: true, data: 42 });
+    expect(requests).toEqual(["POST /execute_task_async", "GET /jobs/job-1/events", "GET /jobs/job-1"]);
+  });
+
+  it("falls back to polling when the stream ends before the job settles", async () => {
+    const requests = stubApi({
+      ...submitted,
+      "GET /jobs/job-1/events": events('data: {"status":"running"}\n\n'),
+      "GET /jobs/job-1": json({ status: "completed", data: 42 }),
+    });
+    const execution = executeTaskAsync({ ...params, pollIntervalMs: 1 });
+
+    await expect(execution.result).resolves.toEqual({ success: true, data: 42 });
+    expect(requests.at(-1)).toBe("GET /jobs/job-1");
+  });
+});
+
+describe("executeTaskAsync polling", () => {
+  it("backs off while the job doesn't change, and resets when it does", async () => {
+    vi.useFakeTimers();
+    const running = json({ status: "running" });
+    const requests = stubApi({
+      ...submitted,
+      "GET /jobs/job-1": [
+        running,
+        running,
+        running,
+        running,
+        json({ status: "running", progress: { percentage: 50 } }),
+        json({ status: "completed", data: 42 }),
+      ],
+    });
+    const execution = executeTaskAsync({
+      ...params,
+      transport: "polling",
+      pollIntervalMs: 1_000,
+      maxPollIntervalMs: 2_000,
+    });
+    const polls = () => requests.filter((request) => request === "GET /jobs/job-1").length;
+
+    // queued → running resets the interval, then it grows: 1000, 1500, 2000 (capped), 2000
+    for (const [delayMs, count] of [
+      [1_000, 1],
+      [1_000, 2],
+      [1_500, 3],
+      [2_000, 4],
+      [2_000, 5],
+    ] as const) {
+      await vi.advanceTimersByTimeAsync(delayMs - 1);
+      expect(polls()).toBe(count - 1);
+      await vi.advanceTimersByTimeAsync(1);
+      expect(polls()).toBe(count);
+    }
+    // The progress changed: back to 1000
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect(polls()).toBe(6);
+    await expect(execution.result).resolves.toEqual({ success: true, data: 42 });
+  });
+
+  it("fails when a status poll fails", async () => {
+    stubApi({ ...submitted, "GET /jobs/job-1": () => Response.json({ code: "GONE" }, { status: 410 }) });
+    const execution = executeTaskAsync({ ...params, transport: "polling", pollIntervalMs: 1 });
+    await expect(execution.result).resolves.toMatchObject({ success: false, error: { code: "GONE" } });
+    expect(execution.status().status).toBe("failed");
+  });
+});
+
+describe("executeTaskAsync cancel", () => {
+  it("cancels the job on the server", async () => {
+    const requests = stubApi({ ...submitted, "POST /jobs/job-1/cancel": json({}) });
+    const execution = executeTaskAsync({ ...params, transport: "polling", pollIntervalMs: 60_000 });
+    await vi.waitFor(() => expect(execution.jobId).toBe("job-1"));
+
+    await execution.cancel();
+    await expect(execution.result).resolves.toMatchObject({ success: false, error: { code: "ABORTED" } });
+    expect(requests).toEqual(["POST /execute_task_async", "POST /jobs/job-1/cancel"]);
+  });
+
+  it("cancels a job still being submitted once its ID arrives", async () => {
+    let respond!: () => void;
+    const submission = new Promise<Response>((resolve) => {
+      respond = () => resolve(Response.json({ job_id: "job-1" }));
+    });
+    const requests = stubApi({
+      "POST /execute_task_async": () => submission,
+      "POST /jobs/job-1/cancel": json({}),
+    });
+    const execution = executeTaskAsync(params);
+
+    const cancelled = execution.cancel();
+    await expect(execution.result).resolves.toMatchObject({ success: false, error: { code: "ABORTED" } });
+    expect(execution.status().status).toBe("cancelled");
+
+    respond();
+    await cancelled;
+    expect(requests).toEqual(["POST /execute_task_async", "POST /jobs/job-1/cancel"]);
+  });
+
+  it("cancels when the signal aborts", async () => {
+    const requests = stubApi({ ...submitted, "POST /jobs/job-1/cancel": json({}) });
+    const controller = new AbortController();
+    const execution = executeTaskAsync({ ...params, signal: controller.signal });
+
+    controller.abort();
+    await expect(execution.result).resolves.toMatchObject({ success: false, error: { code: "ABORTED" } });
+    await vi.waitFor(() => expect(requests).toContain("POST /jobs/job-1/cancel"));
+    expect(requests).not.toContain("GET /jobs/job-1/events");
+  });
+});
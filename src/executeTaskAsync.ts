@@ -0,0 +1,323 @@
+import type {
+  ExecuteTaskAsyncParams,
+  ExecuteTaskResponse,
+  TaskExecution,
+  TaskExecutionProgress,
+  TaskExecutionStatus,
+} from "./types";
+import { authorizedInit, failure, isRecord, requestWithRetry, sleep } from "./executeTask";
+import { debugRequest, resolveEndpoint } from "./config";
+
+/** Submissions and status polls return right away, unlike synchronous executions */
+const DEFAULT_REQUEST_TIMEOUT_MS = 30_000;
+const DEFAULT_POLL_INTERVAL_MS = 1_000;
+const DEFAULT_MAX_POLL_INTERVAL_MS = 10_000;
+/** Polling slows down by this factor while the job doesn't change */
+const POLL_BACKOFF_FACTOR = 1.5;
+
+const JOB_STATUSES = new Set<string>(["queued", "running", "completed", "failed", "cancelled"]);
+const TERMINAL_STATUSES = new Set<TaskExecutionStatus>(["completed", "failed", "cancelled"]);
+
+/**
+ * Read a server-sent event stream, calling `onData` with the data of each event
+ */
+async function readEventStream(body: ReadableStream<Uint8Array>, onData: (data: string) => boolean): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      buffer += decoder.decode(value, { stream: true });
+
+      const blocks = buffer.split(/\r?\n\r?\n/);
+      buffer = blocks.pop() ?? "";
+      for (const block of blocks) {
+        const data = block
+          .split(/\r?\n/)
+          .filter((line) => line.startsWith("data:"))
+          .map((line) => line.slice(5).replace(/^ /, ""))
+          .join("\n");
+        // Comments and events without data are keep-alives
+        if (data && onData(data)) return;
+      }
+    }
+  } finally {
+    reader.cancel().catch(() => {});
+  }
+}
+
+/**
+ * Execute a UI Task as an asynchronous job
+ *
+ * For tasks that run longer than a single request may stay open (proxies typically
+ * close idle connections after a minute or so). The job is submitted with
+ * `POST /execute_task_async`, then followed through server-sent events on
+ * `GET /jobs/{jobId}/events`, or by polling `GET /jobs/{jobId}` with backoff
+ * (paths can be changed with `configureBrixel({ endpoints })`).
+ *
+ * Authentication and the API base URL work as in `executeTask`. Aborting `signal`
+ * is the same as calling `cancel()`.
+ *
+ * @example
+ * ```ts
+ * import { executeTaskAsync } from "@brixel/ui-task-sdk";
+ *
+ * const execution = executeTaskAsync<Report>({
+ *   taskUuid: "task-123-456",
+ *   inputs: { year: 2024 },
+ *   apiToken: context?.apiToken,
+ * });
+ *
+ * for await (const progress of execution) {
+ *   console.log(progress.status, progress.percentage, progress.step);
+ * }
+ *
+ * const result = await execution.result;
+ * if (result.success) {
+ *   console.log("Report:", result.data);
+ * }
+ * ```
+ *
+ * @param params - Parameters for executing the task
+ * @returns A handle on the job, returned immediately
+ */
+export function executeTaskAsync<TOutput = unknown>(params: ExecuteTaskAsyncParams): TaskExecution<TOutput> {
+  const {
+    taskUuid,
+    inputs,
+    apiBaseUrl,
+    signal,
+    timeoutMs = DEFAULT_REQUEST_TIMEOUT_MS,
+    transport = "sse",
+    pollIntervalMs = DEFAULT_POLL_INTERVAL_MS,
+    maxPollIntervalMs = DEFAULT_MAX_POLL_INTERVAL_MS,
+  } = params;
+
+  const init = authorizedInit(params);
+  // Stops every request of this job, once it settles or is cancelled
+  const controller = new AbortController();
+
+  let jobId: string | null = null;
+  let current: TaskExecutionProgress = { status: "submitting" };
+  const history: TaskExecutionProgress[] = [current];
+  const waiters = new Set<() => void>();
+  let settled = false;
+  let resolveResult!: (response: ExecuteTaskResponse<TOutput>) => void;
+  const result = new Promise<ExecuteTaskResponse<TOutput>>((resolve) => {
+    resolveResult = resolve;
+  });
+
+  const wake = () => {
+    for (const waiter of waiters) waiter();
+    waiters.clear();
+  };
+
+  const emit = (progress: TaskExecutionProgress) => {
+    if (
+      progress.status === current.status &&
+      progress.percentage === current.percentage &&
+      progress.step === current.step
+    ) {
+      return;
+    }
+    current = progress;
+    history.push(progress);
+    wake();
+  };
+
+  const settle = (response: ExecuteTaskResponse<TOutput>, status: TaskExecutionStatus) => {
+    if (settled) return;
+    emit({ ...current, status });
+    settled = true;
+    signal?.removeEventListener("abort", onAbort);
+    controller.abort();
+    resolveResult(response);
+    wake();
+  };
+
+  /**
+   * Apply a job state from the server. Returns true once the job has settled.
+   */
+  const apply = (state: unknown): boolean => {
+    if (!isRecord(state)) return false;
+    const status = (JOB_STATUSES.has(state.status as string) ? state.status : "running") as TaskExecutionStatus;
+    const progress = isRecord(state.progress) ? state.progress : {};
+    const next: TaskExecutionProgress = { ...current, status };
+    if (typeof progress.percentage === "number") next.percentage = progress.percentage;
+    if (typeof progress.step === "string") next.step = progress.step;
+
+    emit(next);
+    if (!TERMINAL_STATUSES.has(status)) return false;
+
+    if (status === "completed") {
+      settle({ success: true, data: state.data as TOutput }, status);
+    } else if (status === "cancelled") {
+      settle(failure("CANCELLED", "The job was cancelled"), status);
+    } else {
+      const error = isRecord(state.error) ? state.error : {};
+      settle(
+        failure(
+          typeof error.code === "string" ? error.code : "TASK_FAILED",
+          typeof error.message === "string" ? error.message : "The task failed",
+          { details: error.details }
+        ),
+        status
+      );
+    }
+    return true;
+  };
+
+  const endpoint = (name: "executeTaskAsync" | "job" | "jobEvents" | "cancelJob") =>
+    resolveEndpoint(name, apiBaseUrl, { jobId: jobId ?? undefined });
+
+  /**
+   * Follow the job through server-sent events. Returns false if the stream is
+   * unavailable or ends before the job settles.
+   */
+  const stream = async (): Promise<boolean> => {
+    try {
+      const response = await fetch(endpoint("jobEvents"), {
+        ...init,
+        method: "GET",
+        headers: { ...(init.headers as Record<string, string>), Accept: "text/event-stream" },
+        signal: controller.signal,
+      });
+      if (!response.ok || !response.body || !/text\/event-stream/i.test(response.headers.get("content-type") ?? "")) {
+        response.body?.cancel().catch(() => {});
+        return false;
+      }
+      await readEventStream(response.body, (data) => {
+        try {
+          return apply(JSON.parse(data));
+        } catch {
+          return false;
+        }
+      });
+    } catch {
+      // Fall back to polling
+    }
+    return settled;
+  };
+
+  const poll = async (): Promise<void> => {
+    let delayMs = pollIntervalMs;
+    while (!settled) {
+      if (!(await sleep(delayMs, controller.signal))) return;
+
+      const response = await requestWithRetry(
+        endpoint("job"),
+        { ...init, method: "GET" },
+        { signal: controller.signal, timeoutMs, idempotent: true }
+      );
+      if (settled) return;
+      if (!response.success) {
+        settle(response, "failed");
+        return;
+      }
+
+      const previous = current;
+      if (apply(response.data)) return;
+      delayMs = current === previous ? Math.min(delayMs * POLL_BACKOFF_FACTOR, maxPollIntervalMs) : pollIntervalMs;
+    }
+  };
+
+  /**
+   * Submit the job. Resolves with its ID, or null once settled with the failure.
+   */
+  const submit = async (): Promise<string | null> => {
+    const url = endpoint("executeTaskAsync");
+    debugRequest("POST", url, apiBaseUrl);
+    // Not aborted by cancel(): a job created meanwhile is cancelled once its ID is known
+    const submitted = await requestWithRetry<unknown>(
+      url,
+      {
+        ...init,
+        method: "POST",
+        body: JSON.stringify({
+          task_uuid: taskUuid,
+          inputs,
+        }),
+      },
+      { ...params, signal: undefined, timeoutMs }
+    );
+    if (!submitted.success) {
+      settle(submitted, "failed");
+      return null;
+    }
+
+    const id = isRecord(submitted.data) ? submitted.data.job_id : undefined;
+    if (typeof id !== "string" || !id) {
+      settle(
+        failure("INVALID_RESPONSE", "The server did not return a job ID", { details: submitted.data }),
+        "failed"
+      );
+      return null;
+    }
+    jobId = id;
+    return id;
+  };
+
+  let submission: Promise<string | null> = Promise.resolve(null);
+
+  const run = async (): Promise<void> => {
+    if (!(await submission) || settled) return;
+    emit({ status: "queued" });
+
+    if (transport === "sse" && (await stream())) return;
+    await poll();
+  };
+
+  const cancel = async (): Promise<void> => {
+    if (settled) return;
+    settle(failure("ABORTED", "The execution was cancelled"), "cancelled");
+    // Cancelled while submitting: wait for the job ID to cancel the job on the server
+    if (!(jobId ?? (await submission))) return;
+    // Best effort: if this fails, the job runs to completion on the server
+    await requestWithRetry(
+      endpoint("cancelJob"),
+      { ...init, method: "POST" },
+      { timeoutMs, retry: false }
+    );
+  };
+
+  const onAbort = () => {
+    void cancel();
+  };
+
+  if (signal?.aborted) {
+    settle(failure("ABORTED", "The request was aborted", { attempts: 0 }), "cancelled");
+  } else {
+    signal?.addEventListener("abort", onAbort, { once: true });
+    const fail = (error: unknown) => {
+      settle(
+        failure("NETWORK_ERROR", error instanceof Error ? error.message : "Unknown error occurred", {
+          details: error,
+        }),
+        "failed"
+      );
+      return null;
+    };
+    submission = submit().catch(fail);
+    run().catch(fail);
+  }
+
+  return {
+    get jobId() {
+      return jobId;
+    },
+    status: () => current,
+    cancel,
+    result,
+    async *[Symbol.asyncIterator]() {
+      let index = 0;
+      for (;;) {
+        while (index < history.length) yield history[index++];
+        if (settled) return;
+        await new Promise<void>((resolve) => waiters.add(resolve));
+      }
+    },
+  };
+}
@@ -0,0 +1,73 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { showConfirmDialog } from "./fallbackUi";
+import { BrixelTaskClient } from "./client";
+import { embed } from "./testUtils";
+
+const dialog = () => document.querySelector('[role="alertdialog"]');
+const buttons = () => Array.from(dialog()?.querySelectorAll("button") ?? []);
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  document.body.innerHTML = "";
+});
+
+describe("showConfirmDialog", () => {
+  it("resolves with the button clicked and removes the dialog", async () => {
+    const answer = showConfirmDialog({ title: "Delete?", message: "This can't be undone", confirmLabel: "Delete" });
+    expect(dialog()?.textContent).toContain("This can't be undone");
+
+    const [, confirm] = buttons();
+    expect(confirm.textContent).toBe("Delete");
+    confirm.click();
+    await expect(answer).resolves.toBe(true);
+    expect(dialog()).toBeNull();
+  });
+
+  it("resolves false on Escape", async () => {
+    const answer = showConfirmDialog({ message: "Leave?" });
+    document.dispatchEvent(new KeyboardEvent("keydown", { key: "Escape" }));
+    await expect(answer).resolves.toBe(false);
+    expect(dialog()).toBeNull();
+  });
+
+  it("resolves false and removes the dialog when the signal aborts", async () => {
+    const controller = new AbortController();
+    const answer = showConfirmDialog({ message: "Leave?" }, "light", controller.signal);
+    expect(dialog()).not.toBeNull();
+
+    controller.abort();
+    await expect(answer).resolves.toBe(false);
+    expect(dialog()).toBeNull();
+  });
+});
+
+describe("client confirm fallback", () => {
+  it("closes the dialog with false when the client stops", async () => {
+    const host = embed();
+    const client = new BrixelTaskClient();
+    client.start();
+    host.init();
+
+    const answer = client.confirm({ message: "Leave?" });
+    expect(host.sent("BRIXEL_CONFIRM_REQUEST")).toEqual([]);
+    expect(dialog()).not.toBeNull();
+
+    client.stop();
+    await expect(answer).resolves.toBe(false);
+    expect(dialog()).toBeNull();
+  });
+
+  it("closes the dialog with false when the host destroys the task", async () => {
+    const host = embed();
+    const client = new BrixelTaskClient();
+    client.start();
+    host.init();
+
+    const answer = client.confirm({ message: "Leave?" });
+    host.send("BRIXEL_DESTROY", { runId: "run-1" });
+    await expect(answer).resolves.toBe(false);
+    expect(dialog()).toBeNull();
+    client.stop();
+  });
+});
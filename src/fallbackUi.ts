@@ -0,0 +1,189 @@
+import type { BrixelContext, ConfirmOptions, NotifyOptions } from "./types";
+import { resolveTheme } from "./theme";
+
+/**
+ * In-iframe notifications and confirmation dialogs, used when the host does not
+ * render them (no `notifications` / `dialogs` capability)
+ */
+
+const DEFAULT_TOAST_DURATION_MS = 4_000;
+const TOAST_CONTAINER_ID = "brixel-toasts";
+
+const LEVEL_COLORS: Record<NonNullable<NotifyOptions["level"]>, string> = {
+  info: "#2563eb",
+  success: "#16a34a",
+  warning: "#d97706",
+  error: "#dc2626",
+};
+
+function palette(theme: BrixelContext["theme"] | undefined) {
+  return resolveTheme(theme) === "dark"
+    ? { background: "#1f2937", text: "#f9fafb", muted: "#374151", border: "#4b5563" }
+    : { background: "#ffffff", text: "#111827", muted: "#f3f4f6", border: "#d1d5db" };
+}
+
+/**
+ * Show a toast at the top of the iframe
+ */
+export function showToast(
+  { level = "info", message, durationMs = DEFAULT_TOAST_DURATION_MS }: NotifyOptions,
+  theme?: BrixelContext["theme"]
+): void {
+  let container = document.getElementById(TOAST_CONTAINER_ID);
+  if (!container) {
+    container = document.createElement("div");
+    container.id = TOAST_CONTAINER_ID;
+    Object.assign(container.style, {
+      position: "fixed",
+      top: "8px",
+      left: "8px",
+      right: "8px",
+      display: "flex",
+      flexDirection: "column",
+      alignItems: "center",
+      gap: "6px",
+      zIndex: "2147483647",
+      pointerEvents: "none",
+    });
+    document.body.appendChild(container);
+  }
+
+  const colors = palette(theme);
+  const toast = document.createElement("div");
+  toast.setAttribute("role", level === "error" || level === "warning" ? "alert" : "status");
+  toast.textContent = message;
+  Object.assign(toast.style, {
+    maxWidth: "100%",
+    padding: "8px 12px",
+    borderRadius: "6px",
+    borderLeft: `4px solid ${LEVEL_COLORS[level] ?? LEVEL_COLORS.info}`,
+    background: colors.background,
+    color: colors.text,
+    boxShadow: "0 2px 8px rgba(0, 0, 0, 0.2)",
+    font: "14px/1.4 system-ui, sans-serif",
+    pointerEvents: "auto",
+  });
+  container.appendChild(toast);
+
+  if (durationMs > 0) {
+    setTimeout(() => {
+      toast.remove();
+      if (container && container.childElementCount === 0) container.remove();
+    }, durationMs);
+  }
+}
+
+/**
+ * Show a modal confirmation dialog covering the iframe
+ *
+ * Resolves true when confirmed, false when cancelled (button, Escape or backdrop click)
+ * or when `signal` aborts, which also removes the dialog.
+ */
+export function showConfirmDialog(
+  { title, message, confirmLabel = "Confirm", cancelLabel = "Cancel", danger = false }: ConfirmOptions,
+  theme?: BrixelContext["theme"],
+  signal?: AbortSignal
+): Promise<boolean> {
+  const colors = palette(theme);
+
+  return new Promise((resolve) => {
+    if (signal?.aborted) {
+      resolve(false);
+      return;
+    }
+    const previousFocus = document.activeElement as HTMLElement | null;
+
+    const backdrop = document.createElement("div");
+    Object.assign(backdrop.style, {
+      position: "fixed",
+      inset: "0",
+      display: "flex",
+      alignItems: "center",
+      justifyContent: "center",
+      padding: "16px",
+      background: "rgba(0, 0, 0, 0.4)",
+      zIndex: "2147483647",
+    });
+
+    const dialog = document.createElement("div");
+    dialog.setAttribute("role", "alertdialog");
+    dialog.setAttribute("aria-modal", "true");
+    Object.assign(dialog.style, {
+      width: "100%",
+      maxWidth: "360px",
+      padding: "16px",
+      borderRadius: "8px",
+      background: colors.background,
+      color: colors.text,
+      boxShadow: "0 8px 24px rgba(0, 0, 0, 0.3)",
+      font: "14px/1.4 system-ui, sans-serif",
+    });
+
+    if (title) {
+      const heading = document.createElement("h2");
+      heading.id = "brixel-confirm-title";
+      heading.textContent = title;
+      Object.assign(heading.style, { margin: "0 0 8px", fontSize: "16px" });
+      dialog.setAttribute("aria-labelledby", heading.id);
+      dialog.appendChild(heading);
+    }
+
+    const text = document.createElement("p");
+    text.id = "brixel-confirm-message";
+    text.textContent = message;
+    text.style.margin = "0 0 16px";
+    dialog.setAttribute("aria-describedby", text.id);
+    dialog.appendChild(text);
+
+    const button = (label: string, primary: boolean) => {
+      const element = document.createElement("button");
+      element.type = "button";
+      element.textContent = label;
+      Object.assign(element.style, {
+        padding: "6px 12px",
+        borderRadius: "6px",
+        border: `1px solid ${primary ? "transparent" : colors.border}`,
+        background: primary ? (danger ? LEVEL_COLORS.error : LEVEL_COLORS.info) : colors.muted,
+        color: primary ? "#ffffff" : colors.text,
+        font: "inherit",
+        cursor: "pointer",
+      });
+      return element;
+    };
+
+    const actions = document.createElement("div");
+    Object.assign(actions.style, { display: "flex", justifyContent: "flex-end", gap: "8px" });
+    const cancelButton = button(cancelLabel, false);
+    const confirmButton = button(confirmLabel, true);
+    actions.append(cancelButton, confirmButton);
+    dialog.appendChild(actions);
+    backdrop.appendChild(dialog);
+
+    const close = (confirmed: boolean) => {
+      document.removeEventListener("keydown", onKeyDown, true);
+      signal?.removeEventListener("abort", onAbort);
+      backdrop.remove();
+      previousFocus?.focus?.();
+      resolve(confirmed);
+    };
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") {
+        event.preventDefault();
+        close(false);
+      }
+    };
+    const onAbort = () => close(false);
+
+    cancelButton.addEventListener("click", () => close(false));
+    confirmButton.addEventListener("click", () => close(true));
+    backdrop.addEventListener("click", (event) => {
+      if (event.target === backdrop) close(false);
+    });
+    document.addEventListener("keydown", onKeyDown, true);
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    document.body.appendChild(backdrop);
+    // Destructive actions default to the safe choice
+    (danger ? cancelButton : confirmButton).focus();
+  });
+}
@@ -0,0 +1,73 @@
+import type { FileDescriptor } from "./types";
+
+/**
+ * Files cross the iframe boundary in slices of this size, each transferred (not
+ * copied) with postMessage, so large files never need one huge buffer
+ */
+export const FILE_CHUNK_SIZE = 4 * 1024 * 1024;
+
+/**
+ * Metadata sent ahead of the file content
+ */
+export function describeFile(file: Blob, name?: string): FileDescriptor {
+  return {
+    name: name ?? (file instanceof File ? file.name : "file"),
+    type: file.type,
+    size: file.size,
+    lastModified: file instanceof File ? file.lastModified : Date.now(),
+  };
+}
+
+/**
+ * Read files slice by slice, calling `send` with each slice in order
+ */
+export async function sendFileChunks(
+  files: Blob[],
+  send: (index: number, offset: number, data: ArrayBuffer) => void
+): Promise<void> {
+  for (const [index, file] of files.entries()) {
+    for (let offset = 0; offset < file.size; offset += FILE_CHUNK_SIZE) {
+      const data = await file.slice(offset, offset + FILE_CHUNK_SIZE).arrayBuffer();
+      send(index, offset, data);
+    }
+  }
+}
+
+export interface FileAssembler {
+  /** Add a slice; returns false if it doesn't continue the file where the last one ended */
+  add: (index: number, offset: number, data: ArrayBuffer) => boolean;
+  /** Whether every file has been received in full */
+  isComplete: () => boolean;
+  /** The received files */
+  files: () => File[];
+}
+
+/**
+ * Reassemble files sent with `sendFileChunks`
+ */
+export function createFileAssembler(descriptors: FileDescriptor[]): FileAssembler {
+  const parts = descriptors.map((): ArrayBuffer[] => []);
+  const received = descriptors.map(() => 0);
+
+  return {
+    add(index, offset, data) {
+      const descriptor = descriptors[index];
+      if (!descriptor || offset !== received[index] || offset + data.byteLength > descriptor.size) {
+        return false;
+      }
+      parts[index].push(data);
+      received[index] += data.byteLength;
+      return true;
+    },
+
+    isComplete() {
+      return descriptors.every((descriptor, i) => received[i] === descriptor.size);
+    },
+
+    files() {
+      return descriptors.map(
+        ({ name, type, lastModified }, i) => new File(parts[i], name, { type, lastModified })
+      );
+    },
+  };
+}
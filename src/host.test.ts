@@ -0,0 +1,407 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { Mock } from "vitest";
+import { createBrixelHost } from "./host";
+import { mockContext } from "./devTools";
+import type { BrixelHostOptions } from "./types";
+
+const TASK_ORIGIN = "https://task.test";
+
+type Inputs = { name: string; tags?: string[] };
+type Message = { type: string; payload: Record<string, unknown> };
+
+/**
+ * A host on a stub iframe: `send` delivers messages as if the task posted them,
+ * `sent` lists what the host posted to the iframe
+ */
+function setup(options: Partial<BrixelHostOptions<Inputs, unknown>> = {}) {
+  const frameWindow = { postMessage: vi.fn() } as unknown as Window & { postMessage: Mock };
+  const iframe = { contentWindow: frameWindow as Window, style: {} } as HTMLIFrameElement;
+  const host = createBrixelHost<Inputs>(iframe, {
+    inputs: { name: "Ada" },
+    context: mockContext,
+    allowedOrigin: TASK_ORIGIN,
+    ...options,
+  });
+
+  const send = (
+    type: string,
+    payload: Record<string, unknown> = {},
+    { origin = TASK_ORIGIN, source = frameWindow as MessageEventSource | null } = {}
+  ) => {
+    window.dispatchEvent(
+      new MessageEvent("message", { data: { type, payload: { runId: host.runId, ...payload } }, origin, source })
+    );
+  };
+  const sent = (type?: string): Message[] =>
+    frameWindow.postMessage.mock.calls
+      .map(([message]) => message as Message)
+      .filter((message) => type === undefined || message.type === type);
+
+  return { host, iframe, send, sent, ready: () => send("BRIXEL_READY", { version: "1.0.0" }) };
+}
+
+let teardown: (() => void)[] = [];
+
+afterEach(() => {
+  teardown.forEach((dispose) => dispose());
+  teardown = [];
+  vi.useRealTimers();
+});
+
+function open(options?: Partial<BrixelHostOptions<Inputs, unknown>>) {
+  const harness = setup(options);
+  teardown.push(() => void harness.host.destroy());
+  return harness;
+}
+
+describe("createBrixelHost message filtering", () => {
+  it("only accepts messages from its iframe and allowed origin", () => {
+    const onReady = vi.fn();
+    const { send, sent } = open({ onReady });
+
+    send("BRIXEL_READY", { version: "1.0.0" }, { source: window });
+    send("BRIXEL_READY", { version: "1.0.0" }, { origin: "https://evil.test" });
+    expect(onReady).not.toHaveBeenCalled();
+    expect(sent()).toEqual([]);
+
+    send("BRIXEL_READY", { version: "1.0.0" });
+    expect(onReady).toHaveBeenCalledWith("1.0.0");
+  });
+
+  it("ignores messages for another run", () => {
+    const onLog = vi.fn();
+    const { send, ready } = open({ onLog });
+    ready();
+
+    send("BRIXEL_LOG", { runId: "other-run", level: "info", message: "Hi" });
+    expect(onLog).not.toHaveBeenCalled();
+    send("BRIXEL_LOG", { level: "info", message: "Hi" });
+    expect(onLog).toHaveBeenCalledWith("info", "Hi", undefined);
+  });
+});
+
+describe("createBrixelHost handshake", () => {
+  it("answers READY with INIT, again after a reload", () => {
+    const { host, sent, ready } = open({ savedState: { comment: "Hi" } });
+    expect(host.isReady()).toBe(false);
+
+    ready();
+    expect(host.isReady()).toBe(true);
+    expect(sent()).toEqual([
+      {
+        type: "BRIXEL_INIT",
+        payload: {
+          runId: host.runId,
+          inputs: { name: "Ada" },
+          context: { ...mockContext, maxSubtaskDepth: 3 },
+          renderMode: "interaction",
+          inputsRevision: 0,
+          savedState: { comment: "Hi" },
+          settlementAcks: true,
+        },
+      },
+    ]);
+
+    ready();
+    expect(sent("BRIXEL_INIT")).toHaveLength(2);
+  });
+});
+
+describe("createBrixelHost settlement", () => {
+  it("acknowledges COMPLETE and answers re-sends with the same decision", async () => {
+    const acceptCompletion = vi.fn(() => true as const);
+    const { host, send, sent, ready } = open({ acceptCompletion });
+    ready();
+
+    send("BRIXEL_COMPLETE", { output: { done: true }, requestId: "req-1" });
+    await expect(host.result).resolves.toEqual({ status: "completed", output: { done: true }, port: undefined });
+    send("BRIXEL_COMPLETE", { output: { done: true }, requestId: "req-1" });
+    await vi.waitFor(() => expect(sent("BRIXEL_COMPLETE_ACK")).toHaveLength(2));
+    expect(acceptCompletion).toHaveBeenCalledTimes(1);
+
+    send("BRIXEL_CANCEL", { requestId: "req-2" });
+    await vi.waitFor(() =>
+      expect(sent("BRIXEL_CANCEL_REJECTED")).toEqual([
+        {
+          type: "BRIXEL_CANCEL_REJECTED",
+          payload: {
+            runId: host.runId,
+            requestId: "req-2",
+            reason: "The task has already finished",
+            details: undefined,
+          },
+        },
+      ])
+    );
+  });
+
+  it("keeps the task open when the host rejects the output", async () => {
+    const onResult = vi.fn();
+    const { host, send, sent, ready } = open({
+      acceptCompletion: (output) => ((output as { done: boolean }).done ? true : { reason: "Not done" }),
+    });
+    void host.result.then(onResult);
+    ready();
+
+    send("BRIXEL_COMPLETE", { output: { done: false }, requestId: "req-1" });
+    await vi.waitFor(() => expect(sent("BRIXEL_COMPLETE_REJECTED")).toHaveLength(1));
+    expect(sent("BRIXEL_COMPLETE_REJECTED")[0].payload).toMatchObject({ requestId: "req-1", reason: "Not done" });
+    expect(onResult).not.toHaveBeenCalled();
+
+    send("BRIXEL_COMPLETE", { output: { done: true }, requestId: "req-2" });
+    await expect(host.result).resolves.toMatchObject({ status: "completed", output: { done: true } });
+  });
+
+  it("reports a rejection thrown by acceptCancellation", async () => {
+    const { send, sent, ready } = open({
+      acceptCancellation: () => {
+        throw new Error("Answer required");
+      },
+    });
+    ready();
+
+    send("BRIXEL_CANCEL", { requestId: "req-1" });
+    await vi.waitFor(() => expect(sent("BRIXEL_CANCEL_REJECTED")).toHaveLength(1));
+    expect(sent("BRIXEL_CANCEL_REJECTED")[0].payload.reason).toBe("Answer required");
+  });
+});
+
+describe("createBrixelHost destroy", () => {
+  it("resolves on DESTROY_ACK", async () => {
+    const { host, send, sent, ready } = setup();
+    ready();
+
+    const destroyed = host.destroy();
+    expect(sent("BRIXEL_DESTROY")).toEqual([{ type: "BRIXEL_DESTROY", payload: { runId: host.runId } }]);
+    await expect(host.result).resolves.toEqual({ status: "destroyed" });
+
+    send("BRIXEL_DESTROY_ACK");
+    await expect(destroyed).resolves.toBeUndefined();
+    expect(host.isReady()).toBe(false);
+  });
+
+  it("gives up waiting for DESTROY_ACK after destroyTimeoutMs", async () => {
+    vi.useFakeTimers();
+    const { host, ready } = setup({ destroyTimeoutMs: 1_000 });
+    ready();
+
+    const onDestroyed = vi.fn();
+    void host.destroy().then(onDestroyed);
+    await vi.advanceTimersByTimeAsync(999);
+    expect(onDestroyed).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(1);
+    expect(onDestroyed).toHaveBeenCalled();
+  });
+
+  it("resolves at once before READY, without sending DESTROY", async () => {
+    const { host, sent } = setup();
+    await host.destroy();
+    expect(sent()).toEqual([]);
+  });
+});
+
+describe("createBrixelHost resize", () => {
+  it("applies the height to the iframe", () => {
+    const onResize = vi.fn();
+    const { iframe, send, ready } = open({ onResize });
+    ready();
+
+    send("BRIXEL_RESIZE", { height: 320 });
+    expect(iframe.style.height).toBe("320px");
+    expect(onResize).toHaveBeenCalledWith(320);
+
+    send("BRIXEL_RESIZE", { height: "auto" });
+    expect(iframe.style.height).toBe("");
+  });
+
+  it("leaves the iframe alone without autoResize", () => {
+    const onResize = vi.fn();
+    const { iframe, send, ready } = open({ autoResize: false, onResize });
+    ready();
+
+    send("BRIXEL_RESIZE", { height: 320 });
+    expect(iframe.style).toEqual({});
+    expect(onResize).toHaveBeenCalledWith(320);
+  });
+});
+
+describe("createBrixelHost input updates", () => {
+  it("sends merged updates and patches with increasing revisions", () => {
+    const { host, sent, ready } = open();
+    ready();
+
+    host.updateInputs({ tags: ["a"] });
+    expect(sent("BRIXEL_UPDATE_INPUTS").at(-1)?.payload).toEqual({
+      runId: host.runId,
+      inputs: { tags: ["a"] },
+      merge: undefined,
+      revision: 1,
+    });
+
+    const operations = [{ op: "add" as const, path: "/tags/-", value: "b" }];
+    expect(host.patchInputs(operations)).toEqual({ ok: true, value: { name: "Ada", tags: ["a", "b"] } });
+    expect(sent("BRIXEL_PATCH_INPUTS").at(-1)?.payload).toEqual({ runId: host.runId, operations, revision: 2 });
+
+    host.replaceInputs({ name: "Grace" });
+    expect(sent("BRIXEL_UPDATE_INPUTS").at(-1)?.payload).toEqual({
+      runId: host.runId,
+      inputs: { name: "Grace" },
+      revision: 3,
+      replace: true,
+    });
+  });
+
+  it("sends nothing for a patch that doesn't apply", () => {
+    const { host, sent, ready } = open();
+    ready();
+
+    expect(host.patchInputs([{ op: "remove", path: "/missing" }]).ok).toBe(false);
+    expect(sent("BRIXEL_PATCH_INPUTS")).toEqual([]);
+  });
+
+  it("sends updates made before READY with INIT", () => {
+    const { host, sent, ready } = open({ inputsMerge: "deep" });
+    host.updateInputs({ tags: ["a"] });
+    expect(sent()).toEqual([]);
+
+    ready();
+    expect(sent("BRIXEL_INIT")[0].payload).toMatchObject({ inputs: { name: "Ada", tags: ["a"] }, inputsRevision: 1 });
+  });
+
+  it("answers a resync request with the full inputs", () => {
+    const { host, send, sent, ready } = open();
+    ready();
+    host.updateInputs({ tags: ["a"] });
+
+    send("BRIXEL_REQUEST_INPUTS", { revision: 0 });
+    expect(sent("BRIXEL_UPDATE_INPUTS").at(-1)?.payload).toEqual({
+      runId: host.runId,
+      inputs: { name: "Ada", tags: ["a"] },
+      revision: 1,
+      replace: true,
+    });
+  });
+});
+
+describe("createBrixelHost subtasks", () => {
+  const context = {
+    ...mockContext,
+    conversationId: "conv-1",
+    capabilities: { ...mockContext.capabilities, subtasks: true },
+  };
+  const subtask = { taskUuid: "pick-address", inputs: { city: "Paris" }, requestId: "req-1" };
+
+  it("opens the child one level deeper in the same conversation and relays its outcome", async () => {
+    const openSubtask = vi.fn(async () => ({ status: "cancelled" as const, reason: "Closed" }));
+    const { host, send, sent, ready } = open({ context, openSubtask });
+    ready();
+
+    send("BRIXEL_OPEN_SUBTASK", subtask);
+    expect(openSubtask).toHaveBeenCalledWith({
+      taskUuid: "pick-address",
+      inputs: { city: "Paris" },
+      presentation: "modal",
+      context: expect.objectContaining({
+        conversationId: "conv-1",
+        parentRunId: host.runId,
+        subtaskDepth: 1,
+        maxSubtaskDepth: 3,
+      }),
+    });
+    await vi.waitFor(() =>
+      expect(sent("BRIXEL_SUBTASK_RESULT")).toEqual([
+        {
+          type: "BRIXEL_SUBTASK_RESULT",
+          payload: { runId: host.runId, requestId: "req-1", outcome: { status: "cancelled", reason: "Closed" } },
+        },
+      ])
+    );
+  });
+
+  it("refuses to nest deeper than maxSubtaskDepth", () => {
+    const openSubtask = vi.fn();
+    const { send, sent, ready } = open({ context: { ...context, subtaskDepth: 2 }, openSubtask, maxSubtaskDepth: 2 });
+    ready();
+
+    send("BRIXEL_OPEN_SUBTASK", subtask);
+    expect(openSubtask).not.toHaveBeenCalled();
+    expect(sent("BRIXEL_SUBTASK_RESULT")[0].payload).toMatchObject({
+      requestId: "req-1",
+      error: { code: "DEPTH_EXCEEDED", message: "Subtasks can't be nested more than 2 levels deep" },
+    });
+  });
+
+  it("answers UNSUPPORTED without openSubtask or the capability", () => {
+    const { send, sent, ready } = open({ openSubtask: vi.fn() });
+    ready();
+
+    send("BRIXEL_OPEN_SUBTASK", subtask);
+    expect(sent("BRIXEL_SUBTASK_RESULT")[0].payload).toMatchObject({ error: { code: "UNSUPPORTED" } });
+  });
+
+  it("answers DENIED when the child can't be opened", async () => {
+    const { send, sent, ready } = open({
+      context,
+      openSubtask: () => Promise.reject(new Error("Unknown task")),
+    });
+    ready();
+
+    send("BRIXEL_OPEN_SUBTASK", subtask);
+    await vi.waitFor(() => expect(sent("BRIXEL_SUBTASK_RESULT")).toHaveLength(1));
+    expect(sent("BRIXEL_SUBTASK_RESULT")[0].payload).toMatchObject({
+      error: { code: "DENIED", message: "Unknown task" },
+    });
+  });
+});
+
+describe("createBrixelHost context updates", () => {
+  const context = {
+    ...mockContext,
+    apiToken: "expired",
+    capabilities: { ...mockContext.capabilities, tokenRefresh: true },
+  };
+
+  it("answers a token request and sends the fresh token with a later INIT", async () => {
+    const { host, send, sent, ready } = open({ context, refreshToken: async () => "fresh" });
+    ready();
+
+    send("BRIXEL_REQUEST_TOKEN", { requestId: "req-1" });
+    await vi.waitFor(() =>
+      expect(sent("BRIXEL_TOKEN_RESULT")).toEqual([
+        { type: "BRIXEL_TOKEN_RESULT", payload: { runId: host.runId, requestId: "req-1", apiToken: "fresh" } },
+      ])
+    );
+
+    ready();
+    expect(sent("BRIXEL_INIT").at(-1)?.payload.context).toMatchObject({ apiToken: "fresh" });
+  });
+
+  it("answers UNSUPPORTED without refreshToken or the capability", async () => {
+    const { send, sent, ready } = open({ refreshToken: async () => "fresh" });
+    ready();
+
+    send("BRIXEL_REQUEST_TOKEN", { requestId: "req-1" });
+    await vi.waitFor(() => expect(sent("BRIXEL_TOKEN_RESULT")).toHaveLength(1));
+    expect(sent("BRIXEL_TOKEN_RESULT")[0].payload).toMatchObject({ error: { code: "UNSUPPORTED" } });
+  });
+
+  it("sends context patches and merges them into the next INIT", () => {
+    const { host, sent, ready } = open({ context });
+    ready();
+
+    host.updateContext({ locale: "fr-FR", capabilities: { clipboard: true } as typeof context.capabilities });
+    expect(sent("BRIXEL_UPDATE_CONTEXT")).toEqual([
+      {
+        type: "BRIXEL_UPDATE_CONTEXT",
+        payload: { runId: host.runId, context: { locale: "fr-FR", capabilities: { clipboard: true } } },
+      },
+    ]);
+
+    ready();
+    expect(sent("BRIXEL_INIT").at(-1)?.payload.context).toMatchObject({
+      locale: "fr-FR",
+      capabilities: { ...context.capabilities, clipboard: true },
+    });
+  });
+});
@@ -0,0 +1,772 @@
+import type {
+  BrixelContext,
+  BrixelHost,
+  BrixelHostOptions,
+  BrixelTaskOutcome,
+  CapabilityErrorCode,
+  CapabilityRequest,
+  ConfirmOptions,
+  FileDescriptor,
+  FileRequestOptions,
+  HostSettlementDecision,
+  SubtaskOptions,
+  HostToIframeMessage,
+  IframeToHostMessage,
+  OutputPortName,
+  PortOutput,
+} from "./types";
+import { toTargetOrigin } from "./security";
+import { createRequestId } from "./ids";
+import { mergeContext } from "./context";
+import { applyJsonPatch, deepMerge } from "./patch";
+import { createFileAssembler, describeFile, sendFileChunks } from "./files";
+import type { FileAssembler } from "./files";
+
+/**
+ * Let the user pick files with a hidden `<input type="file">`
+ */
+function pickFilesWithInput({ accept, multiple }: FileRequestOptions): Promise<Blob[]> {
+  return new Promise((resolve) => {
+    const input = document.createElement("input");
+    input.type = "file";
+    if (accept) input.accept = accept;
+    input.multiple = Boolean(multiple);
+    input.addEventListener("change", () => resolve(Array.from(input.files ?? [])), { once: true });
+    input.addEventListener("cancel", () => resolve([]), { once: true });
+    input.click();
+  });
+}
+
+const DEFAULT_MAX_SUBTASK_DEPTH = 3;
+
+/**
+ * Ask with the browser's own dialog
+ */
+function confirmWithWindow({ title, message }: ConfirmOptions): boolean {
+  return window.confirm(title ? `${title}\n\n${message}` : message);
+}
+
+/**
+ * Save a file with a temporary download link
+ */
+function saveWithLink(file: File): void {
+  const url = URL.createObjectURL(file);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = file.name;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+/**
+ * Host-side controller for embedding a UI Task in an iframe
+ *
+ * Pairs with `useBrixelTask` running inside the iframe: waits for `BRIXEL_READY`,
+ * answers with `BRIXEL_INIT`, applies resize requests and routes
+ * COMPLETE / CANCEL / ERROR to the `result` promise.
+ *
+ * @example
+ * ```ts
+ * import { createBrixelHost } from "@brixel/ui-task-sdk";
+ *
+ * const iframe = document.querySelector("iframe")!;
+ * const host = createBrixelHost<Inputs, Output>(iframe, {
+ *   inputs: { title: "Pick one", options: ["A", "B"] },
+ *   context,
+ *   allowedOrigin: "https://tasks.example.com",
+ * });
+ *
+ * const outcome = await host.result;
+ * if (outcome.status === "completed") {
+ *   console.log("Output:", outcome.output);
+ * }
+ *
+ * host.destroy();
+ * ```
+ */
+export function createBrixelHost<TInputs = unknown, TOutput = unknown>(
+  iframe: HTMLIFrameElement,
+  options: BrixelHostOptions<TInputs, TOutput>
+): BrixelHost<TInputs, TOutput> {
+  const {
+    renderMode = "interaction",
+    allowedOrigin,
+    autoResize = true,
+    destroyTimeoutMs = 5000,
+    onReady,
+    onResize,
+    onLog,
+    onError,
+    onProgress,
+    onPartialOutput,
+    acceptCompletion,
+    acceptCancellation,
+    acceptCapability,
+    pickFiles = pickFilesWithInput,
+    saveDownload = saveWithLink,
+    onNotify,
+    confirm = confirmWithWindow,
+    openSubtask,
+    maxSubtaskDepth = options.context.maxSubtaskDepth ?? DEFAULT_MAX_SUBTASK_DEPTH,
+    refreshToken,
+    inputsMerge = "shallow",
+    onSaveState,
+    debug = false,
+  } = options;
+
+  const runId = options.runId ?? options.context.runId;
+  // Opaque origins (sandboxed iframes) can only be targeted with "*"
+  const targetOrigin = toTargetOrigin(allowedOrigin);
+
+  let inputs = options.inputs;
+  // Lets the task detect missed updates and ask for a resync
+  let inputsRevision = 0;
+  // Sent back with INIT if the iframe reloads
+  let savedState = options.savedState;
+  // Tell the task how deep it may nest subtasks
+  let context: BrixelContext = { ...options.context, maxSubtaskDepth };
+  let ready = false;
+  let settled = false;
+  let destroying: Promise<void> | null = null;
+  let lastPartialSequence = 0;
+  let onDestroyAck: (() => void) | null = null;
+  // COMPLETE / CANCEL requests already answered or being decided (retries reuse the requestId)
+  const answered = new Map<string, HostSettlementDecision>();
+  const deciding = new Set<string>();
+  // Files offered with BRIXEL_DOWNLOAD, until their last chunk arrives
+  const downloads = new Map<string, FileAssembler>();
+
+  let resolveResult!: (outcome: BrixelTaskOutcome<TOutput>) => void;
+  const result = new Promise<BrixelTaskOutcome<TOutput>>((resolve) => {
+    resolveResult = resolve;
+  });
+
+  const debugLog = (message: string, data?: unknown) => {
+    if (debug) {
+      console.log(`[BrixelHost] ${message}`, data ?? "");
+    }
+  };
+
+  const settle = (outcome: BrixelTaskOutcome<TOutput>) => {
+    if (settled) return;
+    settled = true;
+    debugLog("Task settled:", outcome);
+    resolveResult(outcome);
+  };
+
+  const postToIframe = (message: HostToIframeMessage<TInputs>, transfer?: Transferable[]) => {
+    const target = iframe.contentWindow;
+    if (!target) {
+      debugLog("Cannot send message - iframe has no contentWindow");
+      return;
+    }
+    debugLog("Sending message to iframe:", message);
+    target.postMessage(message, targetOrigin, transfer);
+  };
+
+  const sendInit = () => {
+    postToIframe({
+      type: "BRIXEL_INIT",
+      payload: { runId, inputs, context, renderMode, inputsRevision, savedState, settlementAcks: true },
+    });
+  };
+
+  // Full inputs, replacing the task's copy (resyncs, replaceInputs)
+  const sendAllInputs = () => {
+    postToIframe({
+      type: "BRIXEL_UPDATE_INPUTS",
+      payload: { runId, inputs, revision: inputsRevision, replace: true },
+    });
+  };
+
+  const reply = (
+    action: "complete" | "cancel",
+    requestId: string | undefined,
+    decision: HostSettlementDecision
+  ) => {
+    // Tasks built with older SDKs don't send a requestId and don't expect a reply
+    if (!requestId) return;
+
+    if (decision === true) {
+      postToIframe({
+        type: action === "complete" ? "BRIXEL_COMPLETE_ACK" : "BRIXEL_CANCEL_ACK",
+        payload: { runId, requestId },
+      });
+    } else {
+      postToIframe({
+        type: action === "complete" ? "BRIXEL_COMPLETE_REJECTED" : "BRIXEL_CANCEL_REJECTED",
+        payload: { runId, requestId, reason: decision.reason, details: decision.details },
+      });
+    }
+  };
+
+  /**
+   * Decide on a COMPLETE / CANCEL once, answer every (re-)send of it
+   */
+  const handleSettlement = async (
+    action: "complete" | "cancel",
+    requestId: string | undefined,
+    decide: () => HostSettlementDecision | Promise<HostSettlementDecision>,
+    outcome: BrixelTaskOutcome<TOutput>
+  ) => {
+    if (requestId && answered.has(requestId)) {
+      reply(action, requestId, answered.get(requestId)!);
+      return;
+    }
+    if (requestId && deciding.has(requestId)) return;
+
+    if (settled) {
+      reply(action, requestId, { reason: "The task has already finished" });
+      return;
+    }
+
+    let decision: HostSettlementDecision;
+    if (requestId) deciding.add(requestId);
+    try {
+      decision = await decide();
+    } catch (error) {
+      decision = { reason: error instanceof Error ? error.message : "Rejected by host" };
+    } finally {
+      if (requestId) deciding.delete(requestId);
+    }
+
+    if (requestId) answered.set(requestId, decision);
+    reply(action, requestId, decision);
+    if (decision === true) {
+      settle(outcome);
+      // Drafts are only kept while the task is open
+      if (savedState) {
+        savedState = undefined;
+        onSaveState?.(null);
+      }
+    } else {
+      debugLog(`Rejected ${action}:`, decision);
+    }
+  };
+
+  /**
+   * Whether the capability is advertised to the task, and the request well-formed
+   */
+  const checkCapability = (request: CapabilityRequest): { code: CapabilityErrorCode; message: string } | null => {
+    const { capabilities } = context;
+    switch (request.capability) {
+      case "requestFullscreen":
+      case "exitFullscreen":
+        return capabilities.fullscreen ? null : { code: "UNSUPPORTED", message: "Fullscreen is not supported" };
+      case "copyToClipboard":
+        if (!capabilities.clipboard) return { code: "UNSUPPORTED", message: "Clipboard access is not supported" };
+        return typeof request.text === "string" ? null : { code: "INVALID_ARGUMENT", message: "Text expected" };
+      case "openExternalUrl": {
+        if (!capabilities.externalLinks) {
+          return { code: "UNSUPPORTED", message: "External links are not supported" };
+        }
+        try {
+          const { protocol } = new URL(request.url);
+          if (protocol === "http:" || protocol === "https:") return null;
+        } catch {
+          // Reported below
+        }
+        return { code: "INVALID_ARGUMENT", message: "Only http(s) URLs can be opened" };
+      }
+      default:
+        return { code: "UNSUPPORTED", message: "Unknown capability" };
+    }
+  };
+
+  const performCapability = async (request: CapabilityRequest): Promise<void> => {
+    switch (request.capability) {
+      case "requestFullscreen":
+        await iframe.requestFullscreen();
+        break;
+      case "exitFullscreen":
+        if (document.fullscreenElement === iframe) {
+          await document.exitFullscreen();
+        }
+        break;
+      case "copyToClipboard":
+        await navigator.clipboard.writeText(request.text);
+        break;
+      case "openExternalUrl":
+        window.open(request.url, "_blank", "noopener,noreferrer");
+        break;
+    }
+  };
+
+  const handleCapability = async (requestId: string, request: CapabilityRequest) => {
+    let error = checkCapability(request);
+
+    if (!error) {
+      try {
+        const decision = (await acceptCapability?.(request)) ?? true;
+        if (decision === true) {
+          await performCapability(request);
+        } else {
+          error = { code: "DENIED", message: decision.reason };
+        }
+      } catch (cause) {
+        // e.g. fullscreen or clipboard without user activation
+        error = { code: "DENIED", message: cause instanceof Error ? cause.message : "Request failed" };
+      }
+    }
+
+    if (error) {
+      debugLog(`Capability ${request.capability} failed:`, error);
+    }
+    if (destroying) return;
+    postToIframe({
+      type: "BRIXEL_CAPABILITY_RESULT",
+      payload: { runId, requestId, error: error ?? undefined },
+    });
+  };
+
+  const handleFileRequest = async (requestId: string, options: FileRequestOptions) => {
+    const fail = (code: CapabilityErrorCode, message: string) => {
+      debugLog("File request failed:", { code, message });
+      postToIframe({ type: "BRIXEL_FILE_RESULT", payload: { runId, requestId, error: { code, message } } });
+    };
+
+    if (!context.capabilities.fileUpload) {
+      fail("UNSUPPORTED", "File upload is not supported");
+      return;
+    }
+
+    let files: Blob[];
+    try {
+      files = await pickFiles(options);
+    } catch (cause) {
+      fail("DENIED", cause instanceof Error ? cause.message : "File selection failed");
+      return;
+    }
+    if (destroying) return;
+
+    if (!options.multiple) files = files.slice(0, 1);
+    const { maxSizeBytes } = options;
+    const tooLarge = maxSizeBytes === undefined ? undefined : files.find((file) => file.size > maxSizeBytes);
+    if (tooLarge) {
+      fail("TOO_LARGE", `"${describeFile(tooLarge).name}" exceeds ${maxSizeBytes} bytes`);
+      return;
+    }
+
+    postToIframe({
+      type: "BRIXEL_FILE_RESULT",
+      payload: { runId, requestId, files: files.map((file) => describeFile(file)) },
+    });
+    try {
+      await sendFileChunks(files, (index, offset, data) => {
+        if (destroying) return;
+        postToIframe({ type: "BRIXEL_FILE_CHUNK", payload: { runId, requestId, index, offset, data } }, [data]);
+      });
+    } catch (cause) {
+      // The task times out waiting for the missing chunks
+      debugLog("Could not read picked files:", cause);
+    }
+  };
+
+  const handleDownload = (requestId: string, file: FileDescriptor) => {
+    if (!context.capabilities.fileDownload) {
+      postToIframe({
+        type: "BRIXEL_DOWNLOAD_RESULT",
+        payload: { runId, requestId, error: { code: "UNSUPPORTED", message: "File download is not supported" } },
+      });
+      return;
+    }
+
+    const assembler = createFileAssembler([file]);
+    if (assembler.isComplete()) {
+      void finishDownload(requestId, assembler);
+    } else {
+      downloads.set(requestId, assembler);
+    }
+  };
+
+  const handleDownloadChunk = (requestId: string, offset: number, data: ArrayBuffer) => {
+    const assembler = downloads.get(requestId);
+    if (!assembler) return;
+
+    if (!assembler.add(0, offset, data)) {
+      downloads.delete(requestId);
+      postToIframe({
+        type: "BRIXEL_DOWNLOAD_RESULT",
+        payload: { runId, requestId, error: { code: "ABORTED", message: "File chunks arrived out of order" } },
+      });
+      return;
+    }
+    if (assembler.isComplete()) {
+      downloads.delete(requestId);
+      void finishDownload(requestId, assembler);
+    }
+  };
+
+  const finishDownload = async (requestId: string, assembler: FileAssembler) => {
+    const [file] = assembler.files();
+    let error: { code: CapabilityErrorCode; message: string } | undefined;
+    try {
+      await saveDownload(file);
+    } catch (cause) {
+      error = { code: "DENIED", message: cause instanceof Error ? cause.message : "Download failed" };
+    }
+    if (destroying) return;
+    postToIframe({ type: "BRIXEL_DOWNLOAD_RESULT", payload: { runId, requestId, error } });
+  };
+
+  const handleOpenSubtask = async (
+    requestId: string,
+    conversationId: string | undefined,
+    { taskUuid, inputs, presentation = "modal" }: SubtaskOptions
+  ) => {
+    const answer = (payload: { outcome?: BrixelTaskOutcome; error?: { code: CapabilityErrorCode; message: string } }) => {
+      if (destroying) return;
+      postToIframe({ type: "BRIXEL_SUBTASK_RESULT", payload: { runId, requestId, ...payload } });
+    };
+
+    const depth = (context.subtaskDepth ?? 0) + 1;
+    if (!openSubtask || !context.capabilities.subtasks) {
+      answer({ error: { code: "UNSUPPORTED", message: "Subtasks are not supported" } });
+      return;
+    }
+    if (depth > maxSubtaskDepth) {
+      answer({
+        error: { code: "DEPTH_EXCEEDED", message: `Subtasks can't be nested more than ${maxSubtaskDepth} levels deep` },
+      });
+      return;
+    }
+
+    // The child shares the conversation (and credentials) of its parent
+    const childContext: BrixelContext = {
+      ...context,
+      runId: createRequestId(),
+      stepId: undefined,
+      conversationId: context.conversationId ?? conversationId,
+      parentRunId: runId,
+      subtaskDepth: depth,
+      maxSubtaskDepth,
+    };
+
+    try {
+      const outcome = await openSubtask({ taskUuid, inputs, presentation, context: childContext });
+      answer({ outcome });
+    } catch (error) {
+      answer({ error: { code: "DENIED", message: error instanceof Error ? error.message : "Could not open the subtask" } });
+    }
+  };
+
+  const handleConfirm = async (requestId: string, options: ConfirmOptions) => {
+    let confirmed = false;
+    try {
+      confirmed = (await confirm(options)) === true;
+    } catch (error) {
+      debugLog("Confirm failed, answering false:", error);
+    }
+    if (destroying) return;
+    postToIframe({ type: "BRIXEL_CONFIRM_RESULT", payload: { runId, requestId, confirmed } });
+  };
+
+  const handleTokenRequest = async (requestId: string) => {
+    const fail = (code: CapabilityErrorCode, message: string) => {
+      debugLog("Token request failed:", { code, message });
+      if (destroying) return;
+      postToIframe({ type: "BRIXEL_TOKEN_RESULT", payload: { runId, requestId, error: { code, message } } });
+    };
+
+    if (!refreshToken || !context.capabilities.tokenRefresh) {
+      fail("UNSUPPORTED", "Token refresh is not supported");
+      return;
+    }
+
+    let apiToken: string;
+    try {
+      apiToken = await refreshToken();
+    } catch (error) {
+      fail("DENIED", error instanceof Error ? error.message : "Could not refresh the token");
+      return;
+    }
+    if (typeof apiToken !== "string" || !apiToken) {
+      fail("DENIED", "No token was issued");
+      return;
+    }
+
+    // A reloaded iframe gets the fresh token with INIT
+    context = { ...context, apiToken };
+    if (destroying) return;
+    postToIframe({ type: "BRIXEL_TOKEN_RESULT", payload: { runId, requestId, apiToken } });
+  };
+
+  const handleMessage = (event: MessageEvent) => {
+    // Only accept messages from our own iframe and its expected origin
+    if (event.source !== iframe.contentWindow) return;
+    if (allowedOrigin !== "*" && event.origin !== allowedOrigin) {
+      debugLog("Ignoring message from unexpected origin:", event.origin);
+      return;
+    }
+
+    const message = event.data as IframeToHostMessage<TOutput>;
+    if (!message || typeof message !== "object" || typeof message.type !== "string") {
+      return;
+    }
+    if (!message.type.startsWith("BRIXEL_")) {
+      return;
+    }
+
+    // Everything except READY is scoped to the current run
+    if (message.type !== "BRIXEL_READY" && message.payload?.runId !== runId) {
+      debugLog("Ignoring message for another run:", message);
+      return;
+    }
+
+    debugLog("Received message:", message);
+
+    switch (message.type) {
+      case "BRIXEL_READY":
+        // The iframe may reload (and signal READY again): always answer with INIT
+        ready = true;
+        onReady?.(message.payload.version);
+        sendInit();
+        break;
+
+      case "BRIXEL_RESIZE": {
+        const { height } = message.payload;
+        if (autoResize) {
+          iframe.style.height = height === "auto" ? "" : `${height}px`;
+        }
+        onResize?.(height);
+        break;
+      }
+
+      case "BRIXEL_COMPLETE": {
+        // The payload is only discriminated by port once TOutput is known
+        const { output, port, requestId } = message.payload as {
+          output: PortOutput<TOutput>;
+          port?: OutputPortName<TOutput>;
+          requestId?: string;
+        };
+        void handleSettlement(
+          "complete",
+          requestId,
+          () => acceptCompletion?.(output, port) ?? true,
+          { status: "completed", output, port } as BrixelTaskOutcome<TOutput>
+        );
+        break;
+      }
+
+      case "BRIXEL_CANCEL": {
+        const { reason, requestId } = message.payload;
+        void handleSettlement(
+          "cancel",
+          requestId,
+          () => acceptCancellation?.(reason) ?? true,
+          { status: "cancelled", reason }
+        );
+        break;
+      }
+
+      case "BRIXEL_ERROR": {
+        const { error } = message.payload;
+        onError?.(error);
+        // Non-fatal errors (e.g. rejected output) leave the task running
+        if (error.fatal !== false) {
+          settle({ status: "error", error });
+        }
+        break;
+      }
+
+      case "BRIXEL_LOG":
+        onLog?.(message.payload.level, message.payload.message, message.payload.data);
+        break;
+
+      case "BRIXEL_PROGRESS": {
+        const { percentage, step } = message.payload;
+        onProgress?.({ percentage, step });
+        break;
+      }
+
+      case "BRIXEL_PARTIAL_OUTPUT": {
+        const { output, sequence } = message.payload;
+        if (sequence <= lastPartialSequence) {
+          debugLog("Ignoring stale partial output:", sequence);
+          break;
+        }
+        lastPartialSequence = sequence;
+        onPartialOutput?.(output, sequence);
+        break;
+      }
+
+      case "BRIXEL_OPEN_SUBTASK": {
+        const { runId: _runId, requestId, conversationId, ...subtask } = message.payload;
+        void handleOpenSubtask(requestId, conversationId, subtask);
+        break;
+      }
+
+      case "BRIXEL_NOTIFY": {
+        const { runId: _runId, ...notification } = message.payload;
+        onNotify?.(notification);
+        break;
+      }
+
+      case "BRIXEL_CONFIRM_REQUEST": {
+        const { runId: _runId, requestId, ...confirmOptions } = message.payload;
+        void handleConfirm(requestId, confirmOptions);
+        break;
+      }
+
+      case "BRIXEL_CAPABILITY_REQUEST": {
+        const { runId: _runId, requestId, ...request } = message.payload;
+        void handleCapability(requestId, request);
+        break;
+      }
+
+      case "BRIXEL_FILE_REQUEST": {
+        const { runId: _runId, requestId, ...fileOptions } = message.payload;
+        void handleFileRequest(requestId, fileOptions);
+        break;
+      }
+
+      case "BRIXEL_DOWNLOAD":
+        handleDownload(message.payload.requestId, message.payload.file);
+        break;
+
+      case "BRIXEL_DOWNLOAD_CHUNK": {
+        const { requestId, offset, data } = message.payload;
+        handleDownloadChunk(requestId, offset, data);
+        break;
+      }
+
+      case "BRIXEL_REQUEST_INPUTS":
+        debugLog(`Resync requested at revision ${message.payload.revision}`);
+        sendAllInputs();
+        break;
+
+      case "BRIXEL_REQUEST_TOKEN":
+        void handleTokenRequest(message.payload.requestId);
+        break;
+
+      case "BRIXEL_SAVE_STATE": {
+        const { state } = message.payload;
+        // Saves sent while destroying are the latest drafts of an iframe about to be recreated
+        if ((settled && !destroying) || typeof state !== "object" || state === null) break;
+        savedState = state;
+        onSaveState?.(state);
+        break;
+      }
+
+      case "BRIXEL_DESTROY_ACK":
+        onDestroyAck?.();
+        break;
+
+      case "BRIXEL_PING":
+        postToIframe({
+          type: "BRIXEL_PONG",
+          payload: { runId, pingId: message.payload.pingId },
+        });
+        break;
+    }
+  };
+
+  window.addEventListener("message", handleMessage);
+
+  return {
+    runId,
+    result,
+
+    isReady() {
+      return ready;
+    },
+
+    updateInputs(updatedInputs) {
+      inputs = inputsMerge === "deep" ? deepMerge(inputs, updatedInputs) : { ...inputs, ...updatedInputs };
+      inputsRevision++;
+      // Before READY the merged inputs simply go out with INIT
+      if (!ready || destroying) return;
+      postToIframe({
+        type: "BRIXEL_UPDATE_INPUTS",
+        payload: {
+          runId,
+          inputs: updatedInputs,
+          merge: inputsMerge === "deep" ? "deep" : undefined,
+          revision: inputsRevision,
+        },
+      });
+    },
+
+    replaceInputs(nextInputs) {
+      inputs = nextInputs;
+      inputsRevision++;
+      if (!ready || destroying) return;
+      sendAllInputs();
+    },
+
+    patchInputs(operations) {
+      const patched = applyJsonPatch(inputs, operations);
+      if (!patched.ok) {
+        debugLog("Patch not applied:", patched.error);
+        return patched;
+      }
+      inputs = patched.value;
+      inputsRevision++;
+      if (!ready || destroying) return patched;
+      postToIframe({
+        type: "BRIXEL_PATCH_INPUTS",
+        payload: { runId, operations, revision: inputsRevision },
+      });
+      return patched;
+    },
+
+    updateTheme(theme, designTokens) {
+      context = designTokens ? { ...context, theme, designTokens } : { ...context, theme };
+      if (!ready || destroying) return;
+      postToIframe({
+        type: "BRIXEL_UPDATE_THEME",
+        payload: { runId, theme, designTokens },
+      });
+    },
+
+    updateLocale(locale) {
+      context = { ...context, locale };
+      if (!ready || destroying) return;
+      postToIframe({
+        type: "BRIXEL_UPDATE_LOCALE",
+        payload: { runId, locale },
+      });
+    },
+
+    updateContext(patch) {
+      context = mergeContext(context, patch);
+      if (!ready || destroying) return;
+      postToIframe({
+        type: "BRIXEL_UPDATE_CONTEXT",
+        payload: { runId, context: patch },
+      });
+    },
+
+    destroy() {
+      if (destroying) return destroying;
+
+      settle({ status: "destroyed" });
+
+      destroying = new Promise<void>((resolve) => {
+        const finish = () => {
+          clearTimeout(timeout);
+          onDestroyAck = null;
+          window.removeEventListener("message", handleMessage);
+          ready = false;
+          resolve();
+        };
+        const timeout = setTimeout(() => {
+          debugLog(`No DESTROY_ACK after ${destroyTimeoutMs}ms`);
+          finish();
+        }, destroyTimeoutMs);
+
+        if (!ready) {
+          finish();
+          return;
+        }
+
+        onDestroyAck = finish;
+        postToIframe({
+          type: "BRIXEL_DESTROY",
+          payload: { runId },
+        });
+      });
+      return destroying;
+    },
+  };
+}
@@ -0,0 +1,9 @@
+/**
+ * Create a unique ID used to correlate requests with their responses across postMessage
+ */
+export function createRequestId(): string {
+  if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
@@ -28,26 +28,117 @@
 // Main hook
 export { useBrixelTask } from "./useBrixelTask";
 
+// Shared provider and granular hooks
+export {
+  BrixelTaskProvider,
+  useBrixelTaskClient,
+  useBrixelInputs,
+  useBrixelContext,
+  useBrixelStatus,
+  useBrixelTheme,
+  useBrixelActions,
+} from "./BrixelTaskProvider";
+export type { BrixelTaskProviderProps } from "./BrixelTaskProvider";
+export { useBrixelDraft } from "./useBrixelDraft";
+
+// Error reporting
+export { BrixelErrorBoundary } from "./BrixelErrorBoundary";
+export type { BrixelErrorBoundaryProps } from "./BrixelErrorBoundary";
+export { serializeError, BrixelCapabilityError } from "./errors";
+
+// Framework-agnostic client (also available from "@brixel/ui-task-sdk/core")
+export { BrixelTaskClient, SDK_VERSION } from "./client";
+
+// Host-side embedding
+export { createBrixelHost } from "./host";
+export { BrixelTaskFrame } from "./BrixelTaskFrame";
+export type { BrixelTaskFrameProps } from "./BrixelTaskFrame";
+
+// Schema validation
+export { validateSchema } from "./schema";
+
+// Input patches
+export { applyJsonPatch } from "./patch";
+
+// Manifest validation
+export { validateManifest, normalizeManifest, parseManifest, loadManifest } from "./manifest";
+
 // Execute Task API
+export { configureBrixel, getBrixelConfig } from "./config";
 export { executeTask, createExecuteTask } from "./executeTask";
+export { executeTaskAsync } from "./executeTaskAsync";
+export { useTaskExecution } from "./useTaskExecution";
+export { useExecuteTask } from "./useExecuteTask";
+export { createTaskQueue } from "./taskQueue";
 
 // Types
 export type {
   // Core types
   RenderMode,
   BrixelContext,
+  ResolvedTheme,
+  BrixelDesignTokens,
   UITaskManifest,
+  OutputPortDefinition,
+  OutputPorts,
+  OutputPortName,
+  PortOutput,
+  PortedOutput,
+  CompleteArgs,
+  CompleteOptions,
+  NormalizedUITaskManifest,
+  ManifestDiagnostic,
+  ManifestValidationResult,
   TaskStatus,
+  ConnectionState,
+  TaskError,
+  TaskErrorCode,
+  SerializedError,
+  JsonSchema,
+  SchemaValidationError,
+  // Client types
+  BrixelTaskSnapshot,
+  BrixelTaskActions,
+  BrixelTaskClientEvents,
+  BrixelTaskClientOptions,
+  AutoResizeOptions,
+  SettlementResult,
+  SettlementRejection,
+  // Capability bridge
+  CapabilityRequest,
+  BrixelCapability,
+  CapabilityErrorCode,
+  FileRequestOptions,
+  FileDescriptor,
+  NotifyOptions,
+  ConfirmOptions,
+  SubtaskOptions,
   // Hook types
   UseBrixelTaskResult,
   UseBrixelTaskOptions,
+  SecurityViolation,
+  SecurityViolationReason,
   // Protocol messages - Host to Iframe
   HostToIframeMessage,
   InitMessage,
   UpdateInputsMessage,
+  PatchInputsMessage,
   DestroyMessage,
   UpdateThemeMessage,
   UpdateLocaleMessage,
+  CompleteAckMessage,
+  CompleteRejectedMessage,
+  CancelAckMessage,
+  CancelRejectedMessage,
+  PongMessage,
+  CapabilityResultMessage,
+  FileResultMessage,
+  FileChunkMessage,
+  DownloadResultMessage,
+  ConfirmResultMessage,
+  SubtaskResultMessage,
+  UpdateContextMessage,
+  TokenResultMessage,
   // Protocol messages - Iframe to Host
   IframeToHostMessage,
   ReadyMessage,
@@ -56,9 +147,47 @@ export type {
   CancelMessage,
   ErrorMessage,
   LogMessage,
+  PingMessage,
+  DestroyAckMessage,
+  ProgressMessage,
+  PartialOutputMessage,
+  CapabilityRequestMessage,
+  FileRequestMessage,
+  DownloadMessage,
+  DownloadChunkMessage,
+  NotifyMessage,
+  ConfirmRequestMessage,
+  OpenSubtaskMessage,
+  RequestTokenMessage,
+  RequestInputsMessage,
+  SaveStateMessage,
+  // Host types
+  BrixelHost,
+  BrixelHostOptions,
+  BrixelTaskOutcome,
+  HostSettlementDecision,
+  SubtaskRequest,
   // Execute Task API types
   ExecuteTaskParams,
   ExecuteTaskResponse,
+  ExecuteTaskError,
+  ExecuteTaskErrorCode,
+  ExecuteTaskAsyncParams,
+  TaskExecution,
+  TaskExecutionStatus,
+  TaskExecutionProgress,
+  UseTaskExecutionResult,
+  TaskQueue,
+  UseExecuteTaskOptions,
+  UseExecuteTaskResult,
+  // Configuration types
+  BrixelConfig,
+  BrixelEndpoints,
+  ResolvedBrixelConfig,
+  // Input patch types
+  JsonPatchOperation,
+  JsonPatchResult,
+  InputsMergeStrategy,
 } from "./types";
 
 // Development tools
@@ -0,0 +1,130 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { loadManifest, normalizeManifest, parseManifest, validateManifest } from "./manifest";
+import type { UITaskManifest } from "./types";
+
+const base: UITaskManifest = {
+  id: "feedback-form",
+  version: "1.0.0",
+  type: "ui_component",
+  name: "Feedback form",
+  renderMode: "interaction",
+  entry: "index.html",
+};
+
+const paths = (json: unknown) => validateManifest(json).diagnostics.map((d) => `${d.severity} ${d.path} ${d.code}`);
+
+describe("validateManifest", () => {
+  it("accepts and normalizes a minimal manifest", () => {
+    const result = validateManifest(base);
+    expect(result).toEqual({
+      valid: true,
+      diagnostics: [],
+      manifest: {
+        ...base,
+        ui: { height: "auto", preferredWidth: "message" },
+        permissions: { network: [], files: false, clipboard: false },
+      },
+    });
+  });
+
+  it("rejects non-objects", () => {
+    expect(paths([])).toEqual(["error  invalid_type"]);
+  });
+
+  it("reports missing and mistyped required fields", () => {
+    const { id: _id, ...rest } = base;
+    expect(paths({ ...rest, name: 3, version: "v1" })).toEqual([
+      "error /id required",
+      "error /name invalid_type",
+      "error /version invalid_version",
+    ]);
+  });
+
+  it("suggests the closest render mode", () => {
+    const [diagnostic] = validateManifest({ ...base, renderMode: "interactoin" }).diagnostics;
+    expect(diagnostic.message).toContain('did you mean "interaction"?');
+  });
+
+  it("warns about unknown fields without invalidating the manifest", () => {
+    const result = validateManifest({ ...base, colour: "red" });
+    expect(result.valid).toBe(true);
+    expect(result.diagnostics).toEqual([
+      { severity: "warning", path: "/colour", code: "unknown_field", message: 'Unknown field "colour"' },
+    ]);
+  });
+
+  it("escapes unknown field names in pointers", () => {
+    expect(
+      paths({
+        ...base,
+        "a/b": 1,
+        ui: { "c~d": 1 },
+        permissions: { "e/f": true },
+        ports: { done: { "g/h": 1 } },
+      })
+    ).toEqual([
+      "warning /a~1b unknown_field",
+      "warning /ports/done/g~1h unknown_field",
+      "warning /ui/c~0d unknown_field",
+      "warning /permissions/e~1f unknown_field",
+    ]);
+  });
+
+  it("validates ports", () => {
+    expect(paths({ ...base, ports: {} })).toEqual(["error /ports empty"]);
+    expect(paths({ ...base, ports: { "1st/port": { outputSchema: "x" } } })).toEqual([
+      "error /ports/1st~1port invalid_port_name",
+      "error /ports/1st~1port/outputSchema invalid_type",
+    ]);
+  });
+
+  it("validates ui dimensions", () => {
+    expect(paths({ ...base, ui: { minHeight: 500, maxHeight: 200 } })).toEqual(["error /ui/minHeight invalid_range"]);
+    expect(paths({ ...base, ui: { height: 100, minHeight: 200 } })).toEqual(["warning /ui/height out_of_range"]);
+    expect(paths({ ...base, ui: { preferredWidth: "ful" } })).toEqual(["error /ui/preferredWidth invalid_value"]);
+    expect(validateManifest({ ...base, ui: { preferredWidth: 480 } }).valid).toBe(true);
+  });
+
+  it("validates permissions", () => {
+    expect(
+      paths({ ...base, permissions: { network: ["https://*.example.com", "ftp://x", 1], files: "yes" } })
+    ).toEqual([
+      "error /permissions/network/1 invalid_origin",
+      "error /permissions/network/2 invalid_type",
+      "error /permissions/files invalid_type",
+    ]);
+  });
+});
+
+describe("normalizeManifest", () => {
+  it("keeps explicit values", () => {
+    const manifest = normalizeManifest({ ...base, ui: { height: 300 }, permissions: { clipboard: true } });
+    expect(manifest.ui).toEqual({ height: 300, preferredWidth: "message" });
+    expect(manifest.permissions).toEqual({ network: [], files: false, clipboard: true });
+  });
+});
+
+describe("parseManifest", () => {
+  it("reports JSON syntax errors", () => {
+    const result = parseManifest("{ nope");
+    expect(result.valid).toBe(false);
+    expect(result.diagnostics[0]).toMatchObject({ severity: "error", path: "", code: "invalid_json" });
+  });
+});
+
+describe("loadManifest", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("reports HTTP errors", async () => {
+    vi.stubGlobal("fetch", vi.fn(async () => new Response("", { status: 404 })));
+    const result = await loadManifest("/manifest.json");
+    expect(result.diagnostics[0]).toMatchObject({ code: "load_failed", message: expect.stringContaining("HTTP 404") });
+  });
+
+  it("parses the response", async () => {
+    vi.stubGlobal("fetch", vi.fn(async () => new Response(JSON.stringify(base))));
+    await expect(loadManifest("/manifest.json")).resolves.toMatchObject({ valid: true });
+  });
+});
@@ -0,0 +1,447 @@
+import type {
+  ManifestDiagnostic,
+  ManifestValidationResult,
+  NormalizedUITaskManifest,
+  UITaskManifest,
+} from "./types";
+
+const RENDER_MODES = ["display", "interaction"] as const;
+const PREFERRED_WIDTHS = ["message", "full"] as const;
+
+const KNOWN_FIELDS = new Set([
+  "$schema",
+  "id",
+  "version",
+  "type",
+  "name",
+  "description",
+  "renderMode",
+  "entry",
+  "inputSchema",
+  "outputSchema",
+  "ports",
+  "ui",
+  "permissions",
+]);
+const KNOWN_UI_FIELDS = new Set(["height", "minHeight", "maxHeight", "preferredWidth"]);
+const KNOWN_PERMISSION_FIELDS = new Set(["network", "files", "clipboard"]);
+const KNOWN_PORT_FIELDS = new Set(["description", "outputSchema"]);
+
+/** Output port name, as referenced by workflow edges */
+const PORT_NAME = /^[A-Za-z][A-Za-z0-9_-]*$/;
+
+/** Semantic version (https://semver.org), without a leading "v" */
+const SEMVER =
+  /^(0|[1-9]\d*)\.(0|[1-9]\d*)\.(0|[1-9]\d*)(?:-[0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*)?(?:\+[0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*)?$/;
+
+/** Network permission entry: an origin, optionally with a leading "*." wildcard subdomain */
+const NETWORK_ORIGIN = /^https?:\/\/(\*\.)?[a-z0-9]([a-z0-9-]*[a-z0-9])?(\.[a-z0-9]([a-z0-9-]*[a-z0-9])?)*(:\d{1,5})?$/i;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Escape a key for use as a JSON pointer segment ("~" → "~0", "/" → "~1")
+ */
+function escapePointer(key: string): string {
+  return key.replace(/~/g, "~0").replace(/\//g, "~1");
+}
+
+function describe(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+/**
+ * Suggest the closest allowed value for a likely typo
+ */
+function suggest(value: string, allowed: readonly string[]): string | undefined {
+  const distance = (a: string, b: string) => {
+    const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+      let previous = row[0];
+      row[0] = i;
+      for (let j = 1; j <= b.length; j++) {
+        const current = row[j];
+        row[j] = Math.min(row[j] + 1, row[j - 1] + 1, previous + (a[i - 1] === b[j - 1] ? 0 : 1));
+        previous = current;
+      }
+    }
+    return row[b.length];
+  };
+
+  const lower = value.toLowerCase();
+  const best = allowed
+    .map((option) => ({ option, score: distance(lower, option.toLowerCase()) }))
+    .sort((a, b) => a.score - b.score)[0];
+  return best && best.score <= 3 ? best.option : undefined;
+}
+
+function createCollector() {
+  const diagnostics: ManifestDiagnostic[] = [];
+
+  const report = (severity: ManifestDiagnostic["severity"], path: string, code: string, message: string) => {
+    diagnostics.push({ severity, path, code, message });
+  };
+
+  return {
+    diagnostics,
+    error: (path: string, code: string, message: string) => report("error", path, code, message),
+    warning: (path: string, code: string, message: string) => report("warning", path, code, message),
+  };
+}
+
+/**
+ * Validate a parsed `manifest.json`
+ *
+ * Diagnostics point at the offending field with a JSON pointer. Any diagnostic of
+ * severity "error" makes the manifest invalid; warnings (e.g. unknown fields) do not.
+ * Valid manifests are returned normalized.
+ *
+ * @example
+ * ```ts
+ * import { validateManifest } from "@brixel/ui-task-sdk";
+ *
+ * const result = validateManifest(JSON.parse(text));
+ * if (!result.valid) {
+ *   for (const d of result.diagnostics) {
+ *     console.error(`${d.path || "/"}: ${d.message}`);
+ *   }
+ * }
+ * ```
+ */
+export function validateManifest(json: unknown): ManifestValidationResult {
+  const { diagnostics, error, warning } = createCollector();
+
+  if (!isObject(json)) {
+    error("", "invalid_type", `Manifest must be an object, got ${describe(json)}`);
+    return { valid: false, diagnostics };
+  }
+
+  for (const key of Object.keys(json)) {
+    if (!KNOWN_FIELDS.has(key)) {
+      warning(`/${escapePointer(key)}`, "unknown_field", `Unknown field "${key}"`);
+    }
+  }
+
+  const requireString = (key: string) => {
+    const value = json[key];
+    if (value === undefined) {
+      error(`/${key}`, "required", `Missing required field "${key}"`);
+      return undefined;
+    }
+    if (typeof value !== "string") {
+      error(`/${key}`, "invalid_type", `"${key}" must be a string, got ${describe(value)}`);
+      return undefined;
+    }
+    if (value.trim() === "") {
+      error(`/${key}`, "empty", `"${key}" must not be empty`);
+      return undefined;
+    }
+    return value;
+  };
+
+  requireString("id");
+  requireString("name");
+
+  const version = requireString("version");
+  if (version !== undefined && !SEMVER.test(version)) {
+    error("/version", "invalid_version", `"version" must be a semantic version (e.g. "1.0.0"), got "${version}"`);
+  }
+
+  const type = requireString("type");
+  if (type !== undefined && type !== "ui_component") {
+    error("/type", "invalid_value", `"type" must be "ui_component", got "${type}"`);
+  }
+
+  const renderMode = requireString("renderMode");
+  if (renderMode !== undefined && !(RENDER_MODES as readonly string[]).includes(renderMode)) {
+    const hint = suggest(renderMode, RENDER_MODES);
+    error(
+      "/renderMode",
+      "invalid_value",
+      `"renderMode" must be one of "display", "interaction", got "${renderMode}"` +
+        (hint ? ` (did you mean "${hint}"?)` : "")
+    );
+  }
+
+  const entry = requireString("entry");
+  if (entry !== undefined && (entry.startsWith("/") || /^[a-zA-Z]:[\\/]/.test(entry))) {
+    warning("/entry", "absolute_entry", `"entry" should be relative to the manifest, got "${entry}"`);
+  }
+
+  if (json.description !== undefined && typeof json.description !== "string") {
+    error("/description", "invalid_type", `"description" must be a string, got ${describe(json.description)}`);
+  }
+
+  for (const key of ["inputSchema", "outputSchema"]) {
+    const schema = json[key];
+    if (schema !== undefined && !isObject(schema)) {
+      error(`/${key}`, "invalid_type", `"${key}" must be a JSON Schema object, got ${describe(schema)}`);
+    }
+  }
+
+  validatePorts(json.ports, error, warning);
+  validateUi(json.ui, error, warning);
+  validatePermissions(json.permissions, error, warning);
+
+  if (diagnostics.some((d) => d.severity === "error")) {
+    return { valid: false, diagnostics };
+  }
+
+  return {
+    valid: true,
+    manifest: normalizeManifest(json as unknown as UITaskManifest),
+    diagnostics,
+  };
+}
+
+type Report = (path: string, code: string, message: string) => void;
+
+function validatePorts(ports: unknown, error: Report, warning: Report) {
+  if (ports === undefined) return;
+  if (!isObject(ports)) {
+    error("/ports", "invalid_type", `"ports" must be an object, got ${describe(ports)}`);
+    return;
+  }
+
+  const names = Object.keys(ports);
+  if (names.length === 0) {
+    error("/ports", "empty", `"ports" must declare at least one port`);
+    return;
+  }
+
+  for (const name of names) {
+    const path = `/ports/${escapePointer(name)}`;
+    const port = ports[name];
+
+    if (!PORT_NAME.test(name)) {
+      error(
+        path,
+        "invalid_port_name",
+        `Port name must start with a letter and contain only letters, digits, "-" and "_", got "${name}"`
+      );
+    }
+    if (!isObject(port)) {
+      error(path, "invalid_type", `Port "${name}" must be an object, got ${describe(port)}`);
+      continue;
+    }
+
+    for (const key of Object.keys(port)) {
+      if (!KNOWN_PORT_FIELDS.has(key)) {
+        warning(`${path}/${escapePointer(key)}`, "unknown_field", `Unknown field "ports.${name}.${key}"`);
+      }
+    }
+    if (port.description !== undefined && typeof port.description !== "string") {
+      error(
+        `${path}/description`,
+        "invalid_type",
+        `"ports.${name}.description" must be a string, got ${describe(port.description)}`
+      );
+    }
+    if (port.outputSchema !== undefined && !isObject(port.outputSchema)) {
+      error(
+        `${path}/outputSchema`,
+        "invalid_type",
+        `"ports.${name}.outputSchema" must be a JSON Schema object, got ${describe(port.outputSchema)}`
+      );
+    }
+  }
+}
+
+function validateUi(ui: unknown, error: Report, warning: Report) {
+  if (ui === undefined) return;
+  if (!isObject(ui)) {
+    error("/ui", "invalid_type", `"ui" must be an object, got ${describe(ui)}`);
+    return;
+  }
+
+  for (const key of Object.keys(ui)) {
+    if (!KNOWN_UI_FIELDS.has(key)) {
+      warning(`/ui/${escapePointer(key)}`, "unknown_field", `Unknown field "ui.${key}"`);
+    }
+  }
+
+  const dimension = (key: string): number | undefined => {
+    const value = ui[key];
+    if (value === undefined) return undefined;
+    if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+      error(`/ui/${key}`, "invalid_value", `"ui.${key}" must be a non-negative number, got ${JSON.stringify(value)}`);
+      return undefined;
+    }
+    return value;
+  };
+
+  const minHeight = dimension("minHeight");
+  const maxHeight = dimension("maxHeight");
+
+  if (minHeight !== undefined && maxHeight !== undefined && minHeight > maxHeight) {
+    error(
+      "/ui/minHeight",
+      "invalid_range",
+      `"ui.minHeight" (${minHeight}) must not be greater than "ui.maxHeight" (${maxHeight})`
+    );
+  }
+
+  const { height } = ui;
+  if (height !== undefined && height !== "auto") {
+    if (typeof height !== "number" || !Number.isFinite(height) || height <= 0) {
+      error("/ui/height", "invalid_value", `"ui.height" must be "auto" or a positive number, got ${JSON.stringify(height)}`);
+    } else if (
+      (minHeight !== undefined && height < minHeight) ||
+      (maxHeight !== undefined && height > maxHeight)
+    ) {
+      warning("/ui/height", "out_of_range", `"ui.height" (${height}) is outside of minHeight/maxHeight`);
+    }
+  }
+
+  const { preferredWidth } = ui;
+  if (
+    preferredWidth !== undefined &&
+    !(PREFERRED_WIDTHS as readonly unknown[]).includes(preferredWidth) &&
+    !(typeof preferredWidth === "number" && Number.isFinite(preferredWidth) && preferredWidth > 0)
+  ) {
+    const hint = typeof preferredWidth === "string" ? suggest(preferredWidth, PREFERRED_WIDTHS) : undefined;
+    error(
+      "/ui/preferredWidth",
+      "invalid_value",
+      `"ui.preferredWidth" must be "message", "full" or a positive number, got ${JSON.stringify(preferredWidth)}` +
+        (hint ? ` (did you mean "${hint}"?)` : "")
+    );
+  }
+}
+
+function validatePermissions(permissions: unknown, error: Report, warning: Report) {
+  if (permissions === undefined) return;
+  if (!isObject(permissions)) {
+    error("/permissions", "invalid_type", `"permissions" must be an object, got ${describe(permissions)}`);
+    return;
+  }
+
+  for (const key of Object.keys(permissions)) {
+    if (!KNOWN_PERMISSION_FIELDS.has(key)) {
+      warning(`/permissions/${escapePointer(key)}`, "unknown_field", `Unknown field "permissions.${key}"`);
+    }
+  }
+
+  const { network } = permissions;
+  if (network !== undefined) {
+    if (!Array.isArray(network)) {
+      error("/permissions/network", "invalid_type", `"permissions.network" must be an array, got ${describe(network)}`);
+    } else {
+      network.forEach((origin, i) => {
+        const path = `/permissions/network/${i}`;
+        if (typeof origin !== "string") {
+          error(path, "invalid_type", `Network permission must be a string, got ${describe(origin)}`);
+        } else if (!NETWORK_ORIGIN.test(origin)) {
+          error(
+            path,
+            "invalid_origin",
+            `Network permission must be an origin like "https://api.example.com" or "https://*.example.com", got "${origin}"`
+          );
+        }
+      });
+    }
+  }
+
+  for (const key of ["files", "clipboard"]) {
+    const value = permissions[key];
+    if (value !== undefined && typeof value !== "boolean") {
+      error(`/permissions/${key}`, "invalid_type", `"permissions.${key}" must be a boolean, got ${describe(value)}`);
+    }
+  }
+}
+
+/**
+ * Apply defaults to a manifest
+ *
+ * - `ui.height`: "auto"
+ * - `ui.preferredWidth`: "message"
+ * - `permissions.network`: []
+ * - `permissions.files` / `permissions.clipboard`: false
+ */
+export function normalizeManifest(manifest: UITaskManifest): NormalizedUITaskManifest {
+  return {
+    ...manifest,
+    ui: {
+      ...manifest.ui,
+      height: manifest.ui?.height ?? "auto",
+      preferredWidth: manifest.ui?.preferredWidth ?? "message",
+    },
+    permissions: {
+      network: manifest.permissions?.network ?? [],
+      files: manifest.permissions?.files ?? false,
+      clipboard: manifest.permissions?.clipboard ?? false,
+    },
+  };
+}
+
+/**
+ * Parse and validate the text of a `manifest.json`
+ *
+ * JSON syntax errors are reported as a diagnostic with code "invalid_json".
+ */
+export function parseManifest(text: string): ManifestValidationResult {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch (error) {
+    return {
+      valid: false,
+      diagnostics: [
+        {
+          severity: "error",
+          path: "",
+          code: "invalid_json",
+          message: error instanceof Error ? error.message : "Invalid JSON",
+        },
+      ],
+    };
+  }
+  return validateManifest(json);
+}
+
+/**
+ * Fetch, parse and validate a manifest from a URL
+ *
+ * @example
+ * ```ts
+ * const result = await loadManifest("/manifest.json");
+ * if (result.valid) {
+ *   console.log(result.manifest.ui.height); // "auto" unless specified
+ * }
+ * ```
+ */
+export async function loadManifest(url: string, init?: RequestInit): Promise<ManifestValidationResult> {
+  try {
+    const response = await fetch(url, init);
+    if (!response.ok) {
+      return {
+        valid: false,
+        diagnostics: [
+          {
+            severity: "error",
+            path: "",
+            code: "load_failed",
+            message: `Failed to load manifest from ${url}: HTTP ${response.status}`,
+          },
+        ],
+      };
+    }
+    return parseManifest(await response.text());
+  } catch (error) {
+    return {
+      valid: false,
+      diagnostics: [
+        {
+          severity: "error",
+          path: "",
+          code: "load_failed",
+          message: `Failed to load manifest from ${url}: ${error instanceof Error ? error.message : "Unknown error"}`,
+        },
+      ],
+    };
+  }
+}
@@ -0,0 +1,131 @@
+import { describe, expect, it } from "vitest";
+import { applyJsonPatch, deepMerge } from "./patch";
+import type { JsonPatchOperation } from "./types";
+
+const document = {
+  title: "Orders",
+  rows: [
+    { id: 1, status: "open" },
+    { id: 2, status: "open" },
+  ],
+  meta: { page: 1 },
+};
+
+describe("applyJsonPatch", () => {
+  it("applies operations in order without mutating the document", () => {
+    const snapshot = structuredClone(document);
+    const result = applyJsonPatch(document, [
+      { op: "replace", path: "/rows/1/status", value: "done" },
+      { op: "add", path: "/rows/-", value: { id: 3, status: "open" } },
+      { op: "remove", path: "/meta/page" },
+      { op: "add", path: "/tags", value: ["urgent"] },
+    ]);
+
+    expect(result).toEqual({
+      ok: true,
+      value: {
+        title: "Orders",
+        rows: [
+          { id: 1, status: "open" },
+          { id: 2, status: "done" },
+          { id: 3, status: "open" },
+        ],
+        meta: {},
+        tags: ["urgent"],
+      },
+    });
+    expect(document).toEqual(snapshot);
+  });
+
+  it("only copies the containers on the changed path", () => {
+    const result = applyJsonPatch(document, [{ op: "replace", path: "/rows/1/status", value: "done" }]);
+    if (!result.ok) throw new Error(result.error.message);
+
+    expect(result.value.rows).not.toBe(document.rows);
+    expect(result.value.rows[0]).toBe(document.rows[0]);
+    expect(result.value.meta).toBe(document.meta);
+  });
+
+  it("inserts into arrays at an index", () => {
+    const result = applyJsonPatch([1, 3], [{ op: "add", path: "/1", value: 2 }]);
+    expect(result).toEqual({ ok: true, value: [1, 2, 3] });
+  });
+
+  it("supports move, copy and test", () => {
+    const result = applyJsonPatch(document, [
+      { op: "test", path: "/title", value: "Orders" },
+      { op: "copy", from: "/rows/0", path: "/first" },
+      { op: "move", from: "/meta", path: "/info" },
+    ]);
+    expect(result.ok && result.value).toMatchObject({ first: { id: 1 }, info: { page: 1 } });
+    expect(result.ok && "meta" in result.value).toBe(false);
+  });
+
+  it("unescapes ~0 and ~1 in paths", () => {
+    const result = applyJsonPatch({ "a/b": 1, "c~d": 2 }, [
+      { op: "replace", path: "/a~1b", value: 10 },
+      { op: "remove", path: "/c~0d" },
+    ]);
+    expect(result).toEqual({ ok: true, value: { "a/b": 10 } });
+  });
+
+  it("replaces the whole document at the root path", () => {
+    expect(applyJsonPatch(document, [{ op: "replace", path: "", value: 42 }])).toEqual({ ok: true, value: 42 });
+  });
+
+  it("reports the index of the failing operation", () => {
+    expect(
+      applyJsonPatch(document, [
+        { op: "replace", path: "/title", value: "x" },
+        { op: "remove", path: "/missing" },
+      ])
+    ).toEqual({ ok: false, error: { index: 1, message: 'Path "/missing" does not exist' } });
+  });
+
+  it("rejects invalid operations", () => {
+    const failure = (operations: unknown) =>
+      applyJsonPatch(document, operations as JsonPatchOperation[]).ok === false;
+
+    expect(failure({})).toBe(true);
+    expect(failure([{ op: "test", path: "/title", value: "Other" }])).toBe(true);
+    expect(failure([{ op: "add", path: "/rows/5", value: {} }])).toBe(true);
+    expect(failure([{ op: "add", path: "/rows/01", value: {} }])).toBe(true);
+    expect(failure([{ op: "move", from: "/meta", path: "/meta/inner" }])).toBe(true);
+    expect(failure([{ op: "copy", path: "/x" }])).toBe(true);
+    expect(failure([{ op: "frobnicate", path: "/x" }])).toBe(true);
+    expect(failure([{ op: "replace", path: "title", value: 1 }])).toBe(true);
+    expect(failure([{ op: "remove", path: "" }])).toBe(true);
+  });
+
+  it("does not follow inherited properties", () => {
+    expect(applyJsonPatch({}, [{ op: "replace", path: "/toString", value: 1 }]).ok).toBe(false);
+  });
+});
+
+describe("deepMerge", () => {
+  it("merges plain objects key by key", () => {
+    expect(deepMerge({ a: 1, nested: { b: 2, c: 3 } }, { nested: { c: 4 }, d: 5 })).toEqual({
+      a: 1,
+      nested: { b: 2, c: 4 },
+      d: 5,
+    });
+  });
+
+  it("replaces arrays and primitives", () => {
+    expect(deepMerge({ list: [1, 2, 3] }, { list: [4] })).toEqual({ list: [4] });
+    expect(deepMerge({ a: 1 }, "text")).toBe("text");
+  });
+
+  it("keeps references of unchanged subtrees", () => {
+    const target = { kept: { x: 1 }, changed: { y: 1 } };
+    const merged = deepMerge(target, { changed: { y: 2 } });
+    expect(merged.kept).toBe(target.kept);
+    expect(deepMerge(target, { kept: { x: 1 } })).toBe(target);
+  });
+
+  it("treats __proto__ as a plain key", () => {
+    const merged = deepMerge<Record<string, unknown>>({}, JSON.parse('{"__proto__": {"polluted": true}}'));
+    expect(Object.prototype.hasOwnProperty.call(merged, "__proto__")).toBe(true);
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+  });
+});
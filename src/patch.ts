@@ -0,0 +1,203 @@
+import type { JsonPatchOperation, JsonPatchResult } from "./types";
+import { deepEqual, unescapePointer } from "./schema";
+
+/**
+ * Immutable input updates with structural sharing: only the objects and arrays on
+ * the path to a change are copied, everything else keeps its reference, so
+ * memoized components and selectors only re-render for the subtrees that changed.
+ */
+
+class PatchError extends Error {}
+
+type Container = Record<string, unknown> | unknown[];
+
+const ARRAY_INDEX = /^(0|[1-9]\d*)$/;
+
+function isContainer(value: unknown): value is Container {
+  return typeof value === "object" && value !== null;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return isContainer(value) && !Array.isArray(value);
+}
+
+function parsePointer(pointer: string): string[] {
+  if (pointer === "") return [];
+  if (typeof pointer !== "string" || !pointer.startsWith("/")) {
+    throw new PatchError(`Invalid JSON Pointer "${pointer}"`);
+  }
+  return pointer.slice(1).split("/").map(unescapePointer);
+}
+
+function arrayIndex(array: unknown[], token: string, allowEnd: boolean): number {
+  if (allowEnd && token === "-") return array.length;
+  if (!ARRAY_INDEX.test(token)) throw new PatchError(`Invalid array index "${token}"`);
+  const index = Number(token);
+  if (index > array.length || (!allowEnd && index === array.length)) {
+    throw new PatchError(`Array index ${index} is out of bounds`);
+  }
+  return index;
+}
+
+function hasChild(container: Container, token: string): boolean {
+  if (Array.isArray(container)) return ARRAY_INDEX.test(token) && Number(token) < container.length;
+  return Object.prototype.hasOwnProperty.call(container, token);
+}
+
+function childOf(node: unknown, token: string, pointer: string): unknown {
+  if (!isContainer(node) || !hasChild(node, token)) {
+    throw new PatchError(`Path "${pointer}" does not exist`);
+  }
+  return Array.isArray(node) ? node[Number(token)] : node[token];
+}
+
+function getAt(document: unknown, pointer: string): unknown {
+  return parsePointer(pointer).reduce<unknown>((node, token) => childOf(node, token, pointer), document);
+}
+
+function withChild(container: Container, token: string, value: unknown): Container {
+  if (Array.isArray(container)) {
+    const copy = container.slice();
+    copy[Number(token)] = value;
+    return copy;
+  }
+  return { ...container, [token]: value };
+}
+
+/**
+ * Copy the containers along `tokens`, letting `leaf` produce the new last container
+ */
+function updateAt(
+  node: unknown,
+  tokens: string[],
+  pointer: string,
+  leaf: (container: Container, token: string) => Container
+): unknown {
+  const [token, ...rest] = tokens;
+  if (!isContainer(node)) throw new PatchError(`Path "${pointer}" does not exist`);
+  if (rest.length === 0) return leaf(node, token);
+  return withChild(node, token, updateAt(childOf(node, token, pointer), rest, pointer, leaf));
+}
+
+function add(document: unknown, pointer: string, value: unknown): unknown {
+  const tokens = parsePointer(pointer);
+  if (tokens.length === 0) return value;
+  return updateAt(document, tokens, pointer, (container, token) => {
+    if (!Array.isArray(container)) return { ...container, [token]: value };
+    const copy = container.slice();
+    copy.splice(arrayIndex(container, token, true), 0, value);
+    return copy;
+  });
+}
+
+function remove(document: unknown, pointer: string): unknown {
+  const tokens = parsePointer(pointer);
+  if (tokens.length === 0) throw new PatchError("The root can't be removed");
+  return updateAt(document, tokens, pointer, (container, token) => {
+    if (Array.isArray(container)) {
+      const copy = container.slice();
+      copy.splice(arrayIndex(container, token, false), 1);
+      return copy;
+    }
+    if (!hasChild(container, token)) throw new PatchError(`Path "${pointer}" does not exist`);
+    const { [token]: _removed, ...rest } = container;
+    return rest;
+  });
+}
+
+function replace(document: unknown, pointer: string, value: unknown): unknown {
+  const tokens = parsePointer(pointer);
+  if (tokens.length === 0) return value;
+  return updateAt(document, tokens, pointer, (container, token) => {
+    if (!hasChild(container, token)) throw new PatchError(`Path "${pointer}" does not exist`);
+    return withChild(container, token, value);
+  });
+}
+
+function applyOperation(document: unknown, operation: JsonPatchOperation): unknown {
+  // Operations arrive over postMessage: check their shape before trusting it
+  if (!isPlainObject(operation) || typeof operation.path !== "string") {
+    throw new PatchError("Operations need an op and a path");
+  }
+  if ((operation.op === "move" || operation.op === "copy") && typeof operation.from !== "string") {
+    throw new PatchError(`"${operation.op}" needs a from path`);
+  }
+
+  switch (operation.op) {
+    case "add":
+      return add(document, operation.path, operation.value);
+    case "remove":
+      return remove(document, operation.path);
+    case "replace":
+      return replace(document, operation.path, operation.value);
+    case "move": {
+      if (operation.path === operation.from) {
+        getAt(document, operation.from);
+        return document;
+      }
+      if (operation.path.startsWith(`${operation.from}/`)) {
+        throw new PatchError(`"${operation.from}" can't be moved into itself`);
+      }
+      const value = getAt(document, operation.from);
+      return add(remove(document, operation.from), operation.path, value);
+    }
+    case "copy":
+      return add(document, operation.path, getAt(document, operation.from));
+    case "test":
+      if (!deepEqual(getAt(document, operation.path), operation.value)) {
+        throw new PatchError(`Test failed at "${operation.path}"`);
+      }
+      return document;
+    default:
+      throw new PatchError(`Unknown operation "${(operation as { op?: unknown }).op}"`);
+  }
+}
+
+/**
+ * Apply RFC 6902 JSON Patch operations without mutating `document`
+ *
+ * @example
+ * ```ts
+ * const result = applyJsonPatch(inputs, [
+ *   { op: "replace", path: "/rows/3/status", value: "done" },
+ *   { op: "remove", path: "/draft" },
+ * ]);
+ * if (result.ok) setInputs(result.value);
+ * ```
+ */
+export function applyJsonPatch<T>(document: T, operations: JsonPatchOperation[]): JsonPatchResult<T> {
+  if (!Array.isArray(operations)) {
+    return { ok: false, error: { index: -1, message: "A patch must be an array of operations" } };
+  }
+
+  let value: unknown = document;
+  for (const [index, operation] of operations.entries()) {
+    try {
+      value = applyOperation(value, operation);
+    } catch (error) {
+      if (!(error instanceof PatchError)) throw error;
+      return { ok: false, error: { index, message: error.message } };
+    }
+  }
+  return { ok: true, value: value as T };
+}
+
+/**
+ * Merge `patch` into `target`: plain objects are merged key by key, anything else
+ * (arrays included) replaces the previous value. Unchanged subtrees keep their reference.
+ */
+export function deepMerge<T>(target: T, patch: unknown): T {
+  if (!isPlainObject(target) || !isPlainObject(patch)) return patch as T;
+
+  let merged: Record<string, unknown> | null = null;
+  for (const [key, value] of Object.entries(patch)) {
+    const exists = Object.prototype.hasOwnProperty.call(target, key);
+    const previous = exists ? target[key] : undefined;
+    const next = deepMerge(previous, value);
+    if (exists && Object.is(next, previous)) continue;
+    merged ??= { ...target };
+    // defineProperty, so a "__proto__" key stays a plain key
+    Object.defineProperty(merged, key, { value: next, enumerable: true, writable: true, configurable: true });
+  }
+  return (merged ?? target) as T;
+}
@@ -0,0 +1,168 @@
+import { describe, expect, it } from "vitest";
+import { deepEqual, unescapePointer, validateSchema } from "./schema";
+
+describe("validateSchema", () => {
+  it("accepts a valid value", () => {
+    const schema = {
+      type: "object",
+      properties: { name: { type: "string", minLength: 1 }, age: { type: "integer", minimum: 0 } },
+      required: ["name"],
+      additionalProperties: false,
+    };
+    expect(validateSchema({ name: "Ada", age: 36 }, schema)).toEqual([]);
+  });
+
+  it("reports missing required properties and nested violations with pointers", () => {
+    const errors = validateSchema(
+      { age: -1 },
+      {
+        type: "object",
+        properties: { age: { type: "integer", minimum: 0 } },
+        required: ["age", "name"],
+      }
+    );
+    expect(errors).toEqual([
+      { path: "/name", keyword: "required", message: 'Missing required property "name"' },
+      { path: "/age", keyword: "minimum", message: "Must be >= 0" },
+    ]);
+  });
+
+  it("stops at a type mismatch", () => {
+    expect(validateSchema(42, { type: "string", minLength: 3 })).toEqual([
+      { path: "", keyword: "type", message: "Expected string but got integer" },
+    ]);
+  });
+
+  it("treats integers as numbers", () => {
+    expect(validateSchema(3, { type: "number" })).toEqual([]);
+    expect(validateSchema(3.5, { type: "integer" })).toHaveLength(1);
+  });
+
+  it("checks string keywords", () => {
+    expect(validateSchema("ab", { minLength: 3 })[0].keyword).toBe("minLength");
+    expect(validateSchema("abcd", { maxLength: 3 })[0].keyword).toBe("maxLength");
+    expect(validateSchema("abc", { pattern: "^\\d+$" })[0].keyword).toBe("pattern");
+    expect(validateSchema("not an email", { format: "email" })[0].keyword).toBe("format");
+    expect(validateSchema("2024-01-31", { format: "date" })).toEqual([]);
+    expect(validateSchema("anything", { format: "unknown-format" })).toEqual([]);
+  });
+
+  it("checks number keywords", () => {
+    expect(validateSchema(5, { exclusiveMaximum: 5 })[0].keyword).toBe("exclusiveMaximum");
+    expect(validateSchema(0.3, { multipleOf: 0.1 })).toEqual([]);
+    expect(validateSchema(7, { multipleOf: 2 })[0].keyword).toBe("multipleOf");
+  });
+
+  it("checks array items, tuples and uniqueness", () => {
+    expect(validateSchema([1, "two"], { items: { type: "integer" } })).toEqual([
+      { path: "/1", keyword: "type", message: "Expected integer but got string" },
+    ]);
+    expect(validateSchema(["a", 1], { prefixItems: [{ type: "string" }, { type: "integer" }] })).toEqual([]);
+    expect(validateSchema([{ a: 1 }, { a: 1 }], { uniqueItems: true })).toEqual([
+      { path: "", keyword: "uniqueItems", message: "Item 1 is a duplicate" },
+    ]);
+  });
+
+  it("escapes keys in pointers", () => {
+    const errors = validateSchema({ "a/b": 1, "c~d": 2 }, { additionalProperties: { type: "string" } });
+    expect(errors.map((error) => error.path)).toEqual(["/a~1b", "/c~0d"]);
+  });
+
+  it("only considers own properties for required", () => {
+    expect(validateSchema({}, { required: ["toString", "constructor"] })).toEqual([
+      { path: "/toString", keyword: "required", message: 'Missing required property "toString"' },
+      { path: "/constructor", keyword: "required", message: 'Missing required property "constructor"' },
+    ]);
+  });
+
+  it("does not match inherited names against properties", () => {
+    const errors = validateSchema({ constructor: 1 }, { properties: {}, additionalProperties: false });
+    expect(errors).toEqual([
+      { path: "/constructor", keyword: "additionalProperties", message: 'Unexpected property "constructor"' },
+    ]);
+  });
+
+  it("resolves local references", () => {
+    const schema = {
+      $defs: { positive: { type: "number", exclusiveMinimum: 0 } },
+      properties: { amount: { $ref: "#/$defs/positive" } },
+    };
+    expect(validateSchema({ amount: 1 }, schema)).toEqual([]);
+    expect(validateSchema({ amount: 0 }, schema)[0]).toMatchObject({ path: "/amount", keyword: "exclusiveMinimum" });
+    expect(validateSchema(1, { $ref: "#/$defs/toString" })[0].keyword).toBe("$ref");
+  });
+
+  it("supports combinators and conditionals", () => {
+    const oneOf = { oneOf: [{ type: "string" }, { minLength: 1 }] };
+    expect(validateSchema(1, oneOf)).toEqual([]);
+    expect(validateSchema("a", oneOf)[0].keyword).toBe("oneOf");
+    expect(validateSchema(1, { anyOf: [{ type: "string" }, { type: "boolean" }] })[0].keyword).toBe("anyOf");
+    expect(validateSchema("a", { not: { type: "string" } })[0].keyword).toBe("not");
+
+    const conditional = {
+      if: { properties: { kind: { const: "email" } } },
+      then: { required: ["address"] },
+      else: { required: ["phone"] },
+    };
+    expect(validateSchema({ kind: "email" }, conditional)[0].path).toBe("/address");
+    expect(validateSchema({ kind: "sms" }, conditional)[0].path).toBe("/phone");
+  });
+
+  it("reports invalid patterns instead of throwing", () => {
+    expect(validateSchema("abc", { pattern: "([a-z" })).toEqual([
+      { path: "", keyword: "pattern", message: "Invalid pattern ([a-z in schema" },
+    ]);
+    const patternProperties = { "(": { type: "string" }, "^a$": { type: "string" } };
+    expect(validateSchema({ a: 1 }, { patternProperties })).toEqual([
+      { path: "", keyword: "patternProperties", message: "Invalid pattern ( in schema" },
+      { path: "/a", keyword: "type", message: "Expected string but got integer" },
+    ]);
+  });
+
+  it("reports malformed references instead of throwing", () => {
+    expect(validateSchema(1, { $ref: "#/%E0%A4%A" })).toEqual([
+      { path: "", keyword: "$ref", message: 'Cannot resolve reference "#/%E0%A4%A"' },
+    ]);
+  });
+
+  it("stops at circular references", () => {
+    expect(validateSchema(1, { $ref: "#" })).toEqual([
+      { path: "", keyword: "$ref", message: 'Circular reference "#"' },
+    ]);
+    const mutual = { $defs: { a: { $ref: "#/$defs/b" }, b: { $ref: "#/$defs/a" } }, $ref: "#/$defs/a" };
+    expect(validateSchema({}, mutual)[0]).toMatchObject({
+      keyword: "$ref",
+      message: expect.stringContaining("Circular"),
+    });
+  });
+
+  it("still follows recursive references into nested values", () => {
+    const tree = {
+      type: "object",
+      properties: { value: { type: "integer" }, children: { type: "array", items: { $ref: "#" } } },
+    };
+    expect(validateSchema({ value: 1, children: [{ value: 2, children: [] }] }, tree)).toEqual([]);
+    expect(validateSchema({ value: 1, children: [{ value: "x" }] }, tree)).toEqual([
+      { path: "/children/0/value", keyword: "type", message: "Expected integer but got string" },
+    ]);
+  });
+
+  it("handles boolean schemas", () => {
+    expect(validateSchema("anything", true)).toEqual([]);
+    expect(validateSchema("anything", false)[0].keyword).toBe("false");
+  });
+});
+
+describe("deepEqual", () => {
+  it("compares structurally", () => {
+    expect(deepEqual({ a: [1, { b: 2 }] }, { a: [1, { b: 2 }] })).toBe(true);
+    expect(deepEqual({ a: 1 }, { a: 1, b: undefined })).toBe(false);
+    expect(deepEqual([1], { 0: 1 })).toBe(false);
+  });
+});
+
+describe("unescapePointer", () => {
+  it("reverses ~0 and ~1", () => {
+    expect(unescapePointer("a~1b~0c")).toBe("a/b~c");
+  });
+});
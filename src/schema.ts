@@ -0,0 +1,363 @@
+import type { JsonSchema, SchemaValidationError } from "./types";
+
+/**
+ * Minimal JSON Schema validator
+ *
+ * Supports the subset of draft-07 / 2020-12 used by UI Task manifests:
+ * type, enum, const, properties, required, additionalProperties, patternProperties,
+ * items (single schema or tuple), prefixItems, minItems, maxItems, uniqueItems,
+ * minLength, maxLength, pattern, format (date-time, date, email, uri, uuid),
+ * minimum, maximum, exclusiveMinimum, exclusiveMaximum, multipleOf,
+ * minProperties, maxProperties, allOf, anyOf, oneOf, not, if/then/else
+ * and local $ref ("#/definitions/..." or "#/$defs/...").
+ *
+ * Unknown keywords are ignored. Broken schemas (invalid patterns, unresolvable or
+ * circular `$ref`s) are reported as violations instead of throwing.
+ */
+
+const FORMATS: Record<string, RegExp> = {
+  "date-time": /^\d{4}-\d{2}-\d{2}[Tt ]\d{2}:\d{2}:\d{2}(\.\d+)?([Zz]|[+-]\d{2}:\d{2})$/,
+  date: /^\d{4}-\d{2}-\d{2}$/,
+  email: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+  uri: /^[a-zA-Z][a-zA-Z\d+.-]*:[^\s]*$/,
+  uuid: /^[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}$/,
+};
+
+function escapePointer(segment: string | number): string {
+  return String(segment).replace(/~/g, "~0").replace(/\//g, "~1");
+}
+
+export function unescapePointer(segment: string): string {
+  return segment.replace(/~1/g, "/").replace(/~0/g, "~");
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number") return Number.isInteger(value) ? "integer" : "number";
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === "number" && actual === "integer");
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeOf(value) === "object";
+}
+
+/**
+ * Own keys only: `in` would also find "toString", "constructor"... on the prototype
+ */
+function hasOwn(object: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(object, key);
+}
+
+export function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== typeof b || a === null || b === null || typeof a !== "object") return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  if (Array.isArray(a)) {
+    const other = b as unknown[];
+    return a.length === other.length && a.every((item, i) => deepEqual(item, other[i]));
+  }
+
+  const aKeys = Object.keys(a as object);
+  const bKeys = Object.keys(b as object);
+  return (
+    aKeys.length === bKeys.length &&
+    aKeys.every((key) =>
+      deepEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key])
+    )
+  );
+}
+
+/**
+ * Compile a schema pattern; null if it isn't a valid regular expression
+ */
+function compilePattern(pattern: string): RegExp | null {
+  try {
+    return new RegExp(pattern, "u");
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * State shared by a whole validation
+ */
+interface Scope {
+  root: JsonSchema;
+  /** Values each `$ref` is being applied to, down the current branch: seeing one again is a cycle */
+  activeRefs: Map<string, Set<unknown>>;
+}
+
+function resolveRef(root: JsonSchema, ref: string): JsonSchema | undefined {
+  if (!ref.startsWith("#")) return undefined;
+
+  let current: unknown = root;
+  for (const segment of ref.slice(1).split("/").filter(Boolean)) {
+    let decoded: string;
+    try {
+      decoded = decodeURIComponent(segment);
+    } catch {
+      return undefined;
+    }
+    const key = unescapePointer(decoded);
+    if (!isObject(current) || !hasOwn(current, key)) return undefined;
+    current = current[key];
+  }
+  return isObject(current) ? current : undefined;
+}
+
+function validateNode(
+  value: unknown,
+  schema: JsonSchema | boolean,
+  path: string,
+  scope: Scope,
+  errors: SchemaValidationError[]
+): void {
+  if (schema === true) return;
+  if (schema === false) {
+    errors.push({ path, keyword: "false", message: "No value is allowed here" });
+    return;
+  }
+
+  const fail = (keyword: string, message: string) => {
+    errors.push({ path, keyword, message });
+  };
+
+  if (typeof schema.$ref === "string") {
+    const ref = schema.$ref;
+    const target = resolveRef(scope.root, ref);
+    const active = scope.activeRefs.get(ref) ?? new Set<unknown>();
+    if (!target) {
+      fail("$ref", `Cannot resolve reference "${ref}"`);
+    } else if (active.has(value)) {
+      // e.g. {"$ref": "#"}: applying it again would never end
+      fail("$ref", `Circular reference "${ref}"`);
+    } else {
+      active.add(value);
+      scope.activeRefs.set(ref, active);
+      validateNode(value, target, path, scope, errors);
+      active.delete(value);
+    }
+  }
+
+  // type
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? (schema.type as string[]) : [schema.type as string];
+    if (!types.some((type) => matchesType(value, type))) {
+      fail("type", `Expected ${types.join(" or ")} but got ${typeOf(value)}`);
+      // Further keywords would only add noise for a value of the wrong type
+      return;
+    }
+  }
+
+  // enum / const
+  if (Array.isArray(schema.enum) && !schema.enum.some((option) => deepEqual(option, value))) {
+    fail("enum", `Must be one of ${schema.enum.map((option) => JSON.stringify(option)).join(", ")}`);
+  }
+  if ("const" in schema && !deepEqual(schema.const, value)) {
+    fail("const", `Must be ${JSON.stringify(schema.const)}`);
+  }
+
+  // Strings
+  if (typeof value === "string") {
+    const length = Array.from(value).length;
+    if (typeof schema.minLength === "number" && length < schema.minLength) {
+      fail("minLength", `Must be at least ${schema.minLength} characters long`);
+    }
+    if (typeof schema.maxLength === "number" && length > schema.maxLength) {
+      fail("maxLength", `Must be at most ${schema.maxLength} characters long`);
+    }
+    if (typeof schema.pattern === "string") {
+      const pattern = compilePattern(schema.pattern);
+      if (!pattern) {
+        fail("pattern", `Invalid pattern ${schema.pattern} in schema`);
+      } else if (!pattern.test(value)) {
+        fail("pattern", `Must match pattern ${schema.pattern}`);
+      }
+    }
+    if (typeof schema.format === "string" && FORMATS[schema.format] && !FORMATS[schema.format].test(value)) {
+      fail("format", `Must be a valid ${schema.format}`);
+    }
+  }
+
+  // Numbers
+  if (typeof value === "number") {
+    if (typeof schema.minimum === "number" && value < schema.minimum) {
+      fail("minimum", `Must be >= ${schema.minimum}`);
+    }
+    if (typeof schema.maximum === "number" && value > schema.maximum) {
+      fail("maximum", `Must be <= ${schema.maximum}`);
+    }
+    if (typeof schema.exclusiveMinimum === "number" && value <= schema.exclusiveMinimum) {
+      fail("exclusiveMinimum", `Must be > ${schema.exclusiveMinimum}`);
+    }
+    if (typeof schema.exclusiveMaximum === "number" && value >= schema.exclusiveMaximum) {
+      fail("exclusiveMaximum", `Must be < ${schema.exclusiveMaximum}`);
+    }
+    if (typeof schema.multipleOf === "number" && schema.multipleOf > 0) {
+      const quotient = value / schema.multipleOf;
+      if (Math.abs(quotient - Math.round(quotient)) > 1e-9) {
+        fail("multipleOf", `Must be a multiple of ${schema.multipleOf}`);
+      }
+    }
+  }
+
+  // Arrays
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === "number" && value.length < schema.minItems) {
+      fail("minItems", `Must contain at least ${schema.minItems} items`);
+    }
+    if (typeof schema.maxItems === "number" && value.length > schema.maxItems) {
+      fail("maxItems", `Must contain at most ${schema.maxItems} items`);
+    }
+    if (schema.uniqueItems === true) {
+      const duplicate = value.findIndex((item, i) => value.findIndex((other) => deepEqual(item, other)) !== i);
+      if (duplicate !== -1) {
+        fail("uniqueItems", `Item ${duplicate} is a duplicate`);
+      }
+    }
+
+    const tuple = Array.isArray(schema.prefixItems)
+      ? (schema.prefixItems as JsonSchema[])
+      : Array.isArray(schema.items)
+        ? (schema.items as JsonSchema[])
+        : [];
+    const rest = Array.isArray(schema.items)
+      ? (schema.additionalItems as JsonSchema | boolean | undefined)
+      : (schema.items as JsonSchema | boolean | undefined);
+
+    value.forEach((item, i) => {
+      const itemSchema = i < tuple.length ? tuple[i] : rest;
+      if (itemSchema !== undefined) {
+        validateNode(item, itemSchema, `${path}/${i}`, scope, errors);
+      }
+    });
+  }
+
+  // Objects
+  if (isObject(value)) {
+    const keys = Object.keys(value);
+    const properties = isObject(schema.properties) ? (schema.properties as Record<string, JsonSchema>) : {};
+    const patterns: [RegExp, JsonSchema][] = [];
+    if (isObject(schema.patternProperties)) {
+      for (const [source, patternSchema] of Object.entries(schema.patternProperties as Record<string, JsonSchema>)) {
+        const pattern = compilePattern(source);
+        if (pattern) {
+          patterns.push([pattern, patternSchema]);
+        } else {
+          fail("patternProperties", `Invalid pattern ${source} in schema`);
+        }
+      }
+    }
+
+    if (Array.isArray(schema.required)) {
+      for (const key of schema.required as string[]) {
+        if (!hasOwn(value, key)) {
+          errors.push({
+            path: `${path}/${escapePointer(key)}`,
+            keyword: "required",
+            message: `Missing required property "${key}"`,
+          });
+        }
+      }
+    }
+    if (typeof schema.minProperties === "number" && keys.length < schema.minProperties) {
+      fail("minProperties", `Must have at least ${schema.minProperties} properties`);
+    }
+    if (typeof schema.maxProperties === "number" && keys.length > schema.maxProperties) {
+      fail("maxProperties", `Must have at most ${schema.maxProperties} properties`);
+    }
+
+    for (const key of keys) {
+      const childPath = `${path}/${escapePointer(key)}`;
+      let matched = false;
+
+      if (hasOwn(properties, key)) {
+        matched = true;
+        validateNode(value[key], properties[key], childPath, scope, errors);
+      }
+      for (const [pattern, patternSchema] of patterns) {
+        if (pattern.test(key)) {
+          matched = true;
+          validateNode(value[key], patternSchema, childPath, scope, errors);
+        }
+      }
+
+      if (!matched && schema.additionalProperties !== undefined) {
+        if (schema.additionalProperties === false) {
+          errors.push({
+            path: childPath,
+            keyword: "additionalProperties",
+            message: `Unexpected property "${key}"`,
+          });
+        } else {
+          validateNode(value[key], schema.additionalProperties as JsonSchema, childPath, scope, errors);
+        }
+      }
+    }
+  }
+
+  // Combinators
+  const passes = (subschema: JsonSchema | boolean) => {
+    const subErrors: SchemaValidationError[] = [];
+    validateNode(value, subschema, path, scope, subErrors);
+    return subErrors;
+  };
+
+  if (Array.isArray(schema.allOf)) {
+    for (const subschema of schema.allOf as JsonSchema[]) {
+      validateNode(value, subschema, path, scope, errors);
+    }
+  }
+  if (Array.isArray(schema.anyOf)) {
+    const results = (schema.anyOf as JsonSchema[]).map(passes);
+    if (!results.some((result) => result.length === 0)) {
+      fail("anyOf", "Must match at least one of the allowed schemas");
+    }
+  }
+  if (Array.isArray(schema.oneOf)) {
+    const matches = (schema.oneOf as JsonSchema[]).map(passes).filter((result) => result.length === 0).length;
+    if (matches !== 1) {
+      fail("oneOf", `Must match exactly one of the allowed schemas (matched ${matches})`);
+    }
+  }
+  if (schema.not !== undefined && passes(schema.not as JsonSchema).length === 0) {
+    fail("not", "Must not match the disallowed schema");
+  }
+  if (schema.if !== undefined) {
+    const branch = passes(schema.if as JsonSchema).length === 0 ? schema.then : schema.else;
+    if (branch !== undefined) {
+      validateNode(value, branch as JsonSchema, path, scope, errors);
+    }
+  }
+}
+
+/**
+ * Validate a value against a JSON Schema
+ *
+ * @example
+ * ```ts
+ * const errors = validateSchema({ age: -1 }, {
+ *   type: "object",
+ *   properties: { age: { type: "integer", minimum: 0 } },
+ *   required: ["age", "name"],
+ * });
+ * // [
+ * //   { path: "/name", keyword: "required", message: 'Missing required property "name"' },
+ * //   { path: "/age", keyword: "minimum", message: "Must be >= 0" },
+ * // ]
+ * ```
+ *
+ * @returns The list of violations (empty when the value is valid)
+ */
+export function validateSchema(value: unknown, schema: JsonSchema | boolean): SchemaValidationError[] {
+  const errors: SchemaValidationError[] = [];
+  validateNode(value, schema, "", { root: typeof schema === "object" ? schema : {}, activeRefs: new Map() }, errors);
+  return errors;
+}
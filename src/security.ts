@@ -0,0 +1,30 @@
+/**
+ * Origin helpers shared by the iframe and host sides of the protocol
+ */
+
+/**
+ * Check an origin against an allowlist of exact strings or patterns
+ *
+ * An empty or missing allowlist accepts every origin.
+ */
+export function isOriginAllowed(
+  origin: string,
+  allowedOrigins?: ReadonlyArray<string | RegExp>
+): boolean {
+  if (!allowedOrigins || allowedOrigins.length === 0) {
+    return true;
+  }
+
+  return allowedOrigins.some((allowed) =>
+    typeof allowed === "string" ? allowed === "*" || allowed === origin : allowed.test(origin)
+  );
+}
+
+/**
+ * Origin usable as a postMessage `targetOrigin`
+ *
+ * Opaque origins ("null", e.g. sandboxed documents) cannot be targeted and fall back to "*".
+ */
+export function toTargetOrigin(origin: string | null | undefined): string {
+  return !origin || origin === "null" ? "*" : origin;
+}
@@ -0,0 +1,54 @@
+import type { TaskQueue } from "./types";
+
+const DEFAULT_CONCURRENCY = 4;
+
+/**
+ * Create a queue running at most `concurrency` jobs at once, in call order
+ *
+ * @example
+ * ```ts
+ * const queue = createTaskQueue(2);
+ * const results = await Promise.all(
+ *   rows.map((row) => queue.run(() => executeTask({ taskUuid: "task-123", inputs: row })))
+ * );
+ * ```
+ */
+export function createTaskQueue(concurrency = DEFAULT_CONCURRENCY): TaskQueue {
+  const limit = Math.max(1, Math.floor(concurrency));
+  const waiting: Array<() => void> = [];
+  let active = 0;
+
+  const next = () => {
+    if (active >= limit) return;
+    const start = waiting.shift();
+    if (!start) return;
+    active++;
+    start();
+  };
+
+  return {
+    run<T>(job: () => Promise<T>): Promise<T> {
+      return new Promise<T>((resolve, reject) => {
+        waiting.push(() => {
+          // A job that throws synchronously must still free its slot
+          Promise.resolve()
+            .then(job)
+            .then(resolve, reject)
+            .finally(() => {
+              active--;
+              next();
+            });
+        });
+        next();
+      });
+    },
+
+    get active() {
+      return active;
+    },
+
+    get pending() {
+      return waiting.length;
+    },
+  };
+}
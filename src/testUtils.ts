@@ -0,0 +1,47 @@
+import { vi } from "vitest";
+import type { Mock } from "vitest";
+import { mockContext } from "./devTools";
+
+/**
+ * Test helpers (not part of the published bundle)
+ */
+
+export const HOST_ORIGIN = "https://host.test";
+
+type Message = { type: string; payload: Record<string, unknown> };
+
+/**
+ * Make the page look embedded: `window.parent` becomes a stub recording what the
+ * task posts, and `send` delivers host messages as if the parent sent them.
+ * Call before creating the client; `vi.restoreAllMocks()` undoes it.
+ */
+export function embed() {
+  const parent = { postMessage: vi.fn() } as unknown as Window & { postMessage: Mock };
+  vi.spyOn(window, "top", "get").mockReturnValue(parent);
+  vi.spyOn(window, "parent", "get").mockReturnValue(parent);
+
+  const send = (
+    type: string,
+    payload: Record<string, unknown>,
+    { origin = HOST_ORIGIN, source = parent as MessageEventSource | null } = {}
+  ) => {
+    window.dispatchEvent(new MessageEvent("message", { data: { type, payload }, origin, source }));
+  };
+
+  return {
+    parent,
+    send,
+    /** Send BRIXEL_INIT for `runId` ("run-1" by default) */
+    init: (payload: Record<string, unknown> = {}, options?: Parameters<typeof send>[2]) =>
+      send(
+        "BRIXEL_INIT",
+        { runId: "run-1", inputs: {}, context: mockContext, renderMode: "interaction", ...payload },
+        options
+      ),
+    /** Messages posted by the task, optionally only those of one type */
+    sent: (type?: string): Message[] =>
+      parent.postMessage.mock.calls
+        .map(([message]) => message as Message)
+        .filter((message) => type === undefined || message.type === type),
+  };
+}
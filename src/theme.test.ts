@@ -0,0 +1,157 @@
+// @vitest-environment jsdom
+import { act, createElement } from "react";
+import { createRoot } from "react-dom/client";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { BrixelTaskClient } from "./client";
+import { BrixelTaskProvider, useBrixelTheme } from "./BrixelTaskProvider";
+import { mockContext } from "./devTools";
+import { embed } from "./testUtils";
+
+(globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+
+/** Stub `matchMedia` with a switchable dark preference */
+function stubSystemTheme(dark: boolean) {
+  const listeners = new Set<() => void>();
+  const query = {
+    get matches() {
+      return dark;
+    },
+    addEventListener: (_type: string, listener: () => void) => listeners.add(listener),
+    removeEventListener: (_type: string, listener: () => void) => listeners.delete(listener),
+  };
+  vi.stubGlobal("matchMedia", () => query);
+  return {
+    listeners,
+    switchTo(next: "light" | "dark") {
+      dark = next === "dark";
+      listeners.forEach((listener) => listener());
+    },
+  };
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+  document.documentElement.removeAttribute("style");
+});
+
+describe("client theme", () => {
+  it("resolves system against the OS preference and follows OS switches", () => {
+    const system = stubSystemTheme(true);
+    const host = embed();
+    const client = new BrixelTaskClient();
+    const onTheme = vi.fn();
+    client.on("theme", onTheme);
+    client.start();
+    host.init({ context: { ...mockContext, theme: "system" } });
+    expect(client.getSnapshot().resolvedTheme).toBe("dark");
+
+    system.switchTo("light");
+    expect(client.getSnapshot().resolvedTheme).toBe("light");
+    expect(onTheme).toHaveBeenLastCalledWith("light");
+
+    client.stop();
+    expect(system.listeners.size).toBe(0);
+  });
+
+  it("resolves system to light when matchMedia is unavailable", () => {
+    const host = embed();
+    const client = new BrixelTaskClient();
+    client.start();
+    host.init({ context: { ...mockContext, theme: "system" } });
+    expect(client.getSnapshot().resolvedTheme).toBe("light");
+    client.stop();
+  });
+
+  it("updates live on BRIXEL_UPDATE_THEME", () => {
+    stubSystemTheme(false);
+    const host = embed();
+    const client = new BrixelTaskClient();
+    const onContext = vi.fn();
+    client.on("context", onContext);
+    client.start();
+    host.init({ context: { ...mockContext, theme: "light" } });
+
+    host.send("BRIXEL_UPDATE_THEME", { runId: "run-1", theme: "dark" });
+    expect(client.getSnapshot().resolvedTheme).toBe("dark");
+    expect(client.getSnapshot().context?.theme).toBe("dark");
+    expect(onContext).toHaveBeenLastCalledWith(expect.objectContaining({ theme: "dark", user: mockContext.user }));
+
+    host.send("BRIXEL_UPDATE_THEME", { runId: "run-1", theme: "system" });
+    expect(client.getSnapshot().resolvedTheme).toBe("light");
+    client.stop();
+  });
+});
+
+describe("client design tokens", () => {
+  const { style } = document.documentElement;
+
+  it("applies tokens to <html> and removes those the host drops", () => {
+    const host = embed();
+    const client = new BrixelTaskClient({ applyDesignTokens: true });
+    client.start();
+    host.init({
+      context: {
+        ...mockContext,
+        theme: "light",
+        designTokens: {
+          colors: { primaryForeground: "#fff", accent: "#f00" },
+          radii: { md: "8px" },
+          fontFamily: "Inter",
+        },
+      },
+    });
+    expect(style.getPropertyValue("--brixel-color-primary-foreground")).toBe("#fff");
+    expect(style.getPropertyValue("--brixel-color-accent")).toBe("#f00");
+    expect(style.getPropertyValue("--brixel-radius-md")).toBe("8px");
+    expect(style.getPropertyValue("--brixel-font-family")).toBe("Inter");
+    expect(style.colorScheme).toBe("light");
+
+    host.send("BRIXEL_UPDATE_THEME", { runId: "run-1", theme: "dark", designTokens: { colors: { accent: "#0f0" } } });
+    expect(style.getPropertyValue("--brixel-color-accent")).toBe("#0f0");
+    expect(style.getPropertyValue("--brixel-color-primary-foreground")).toBe("");
+    expect(style.getPropertyValue("--brixel-radius-md")).toBe("");
+    expect(style.getPropertyValue("--brixel-font-family")).toBe("");
+    expect(style.colorScheme).toBe("dark");
+    client.stop();
+  });
+
+  it("leaves <html> alone without applyDesignTokens", () => {
+    const host = embed();
+    const client = new BrixelTaskClient();
+    client.start();
+    host.init({ context: { ...mockContext, designTokens: { colors: { accent: "#f00" } } } });
+    expect(style.getPropertyValue("--brixel-color-accent")).toBe("");
+    client.stop();
+  });
+});
+
+describe("useBrixelTheme", () => {
+  function Theme() {
+    return useBrixelTheme();
+  }
+
+  it("throws a clear error outside a provider", () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const root = createRoot(document.createElement("div"));
+    expect(() => act(() => root.render(createElement(Theme)))).toThrow(
+      "useBrixelTheme() must be used inside <BrixelTaskProvider>"
+    );
+  });
+
+  it("re-renders when the host switches theme", () => {
+    const host = embed();
+    const client = new BrixelTaskClient();
+    const container = document.createElement("div");
+    const root = createRoot(container);
+    act(() => root.render(createElement(BrixelTaskProvider, { client }, createElement(Theme))));
+    client.start();
+    act(() => host.init({ context: { ...mockContext, theme: "light" } }));
+    expect(container.textContent).toBe("light");
+
+    act(() => host.send("BRIXEL_UPDATE_THEME", { runId: "run-1", theme: "dark" }));
+    expect(container.textContent).toBe("dark");
+    act(() => root.unmount());
+    client.stop();
+  });
+});
@@ -0,0 +1,72 @@
+import type { BrixelContext, BrixelDesignTokens, ResolvedTheme } from "./types";
+
+const DARK_QUERY = "(prefers-color-scheme: dark)";
+
+/**
+ * Resolve "system" against the OS preference (light when it can't be read)
+ */
+export function resolveTheme(theme: BrixelContext["theme"] | undefined): ResolvedTheme {
+  if (theme === "dark" || theme === "light") return theme;
+  return typeof matchMedia === "function" && matchMedia(DARK_QUERY).matches ? "dark" : "light";
+}
+
+/**
+ * Call `onChange` when the OS switches between light and dark
+ *
+ * @returns A function removing the listener
+ */
+export function watchSystemTheme(onChange: () => void): () => void {
+  if (typeof matchMedia !== "function") return () => {};
+  const query = matchMedia(DARK_QUERY);
+  query.addEventListener?.("change", onChange);
+  return () => query.removeEventListener?.("change", onChange);
+}
+
+/**
+ * "primaryForeground" → "primary-foreground"; null for names that aren't valid in a property
+ */
+function cssName(name: string): string | null {
+  const kebab = name.replace(/([a-z0-9])([A-Z])/g, "$1-$2").toLowerCase();
+  return /^[a-z0-9-]+$/.test(kebab) ? kebab : null;
+}
+
+/**
+ * Custom properties for the tokens: `--brixel-color-*`, `--brixel-radius-*`, `--brixel-font-family`
+ */
+function tokenProperties({ colors = {}, radii = {}, fontFamily }: BrixelDesignTokens): Map<string, string> {
+  const properties = new Map<string, string>();
+  const add = (prefix: string, values: Record<string, string>) => {
+    for (const [name, value] of Object.entries(values)) {
+      const property = cssName(name);
+      if (property && typeof value === "string") properties.set(`--brixel-${prefix}-${property}`, value);
+    }
+  };
+  add("color", colors);
+  add("radius", radii);
+  if (typeof fontFamily === "string") properties.set("--brixel-font-family", fontFamily);
+  return properties;
+}
+
+/**
+ * Set the design tokens as CSS custom properties on `<html>`, with the matching
+ * `color-scheme`. Properties set by a previous call and now absent are removed.
+ *
+ * @returns The properties set, to pass as `previous` next time
+ */
+export function applyDesignTokens(
+  theme: ResolvedTheme,
+  tokens: BrixelDesignTokens | undefined,
+  previous: string[]
+): string[] {
+  const { style } = document.documentElement;
+  const properties = tokenProperties(tokens ?? {});
+
+  for (const property of previous) {
+    if (!properties.has(property)) style.removeProperty(property);
+  }
+  for (const [property, value] of properties) {
+    style.setProperty(property, value);
+  }
+  style.colorScheme = theme;
+  return [...properties.keys()];
+}
@@ -39,20 +39,119 @@ export interface BrixelContext {
   /** UI preferences */
   theme: "light" | "dark" | "system";
   locale: string;
+  /** Design tokens of the host, so the task can match the surrounding UI */
+  designTokens?: BrixelDesignTokens;
   /** Capabilities supported by the host */
   capabilities: {
     resize: boolean;
     fullscreen: boolean;
     fileUpload: boolean;
+    /** Host writes to the clipboard on behalf of the task (`copyToClipboard`) */
+    clipboard?: boolean;
+    /** Host opens links outside of the iframe (`openExternalUrl`) */
+    externalLinks?: boolean;
+    /** Host saves files generated by the task (`offerDownload`) */
+    fileDownload?: boolean;
+    /** Host renders `notify` toasts (otherwise they are shown inside the iframe) */
+    notifications?: boolean;
+    /** Host renders `confirm` dialogs (otherwise they are shown inside the iframe) */
+    dialogs?: boolean;
+    /** Host renders child UI Tasks opened with `openSubtask` */
+    subtasks?: boolean;
+    /** Host answers `refreshToken` (and the bound `executeTask` retries a 401 with a fresh token) */
+    tokenRefresh?: boolean;
   };
+  /** Run ID of the task that opened this one with `openSubtask` */
+  parentRunId?: string;
+  /** Nesting level: 0 for a top-level task, 1 for its subtasks, ... */
+  subtaskDepth?: number;
+  /** Deepest nesting level the host allows (default: 3) */
+  maxSubtaskDepth?: number;
   /** Conversation ID for API calls (optional) */
   conversationId?: string;
   /** API token passed by parent for authenticated requests (recommended over cookies) */
   apiToken?: string;
-  /** Optional custom API base URL (for development/testing) */
+  /** API base URL for this task's API calls, taking precedence over `configureBrixel` */
   apiBaseUrl?: string;
 }
 
+/**
+ * Theme actually shown: "system" resolved against the OS preference
+ */
+export type ResolvedTheme = "light" | "dark";
+
+/**
+ * Host design tokens for the current theme (see `BrixelTaskClientOptions.applyDesignTokens`)
+ */
+export interface BrixelDesignTokens {
+  /** Colors by name, e.g. `{ primary: "#4f46e5", background: "#ffffff" }` */
+  colors?: Record<string, string>;
+  /** Corner radii by name, e.g. `{ sm: "4px", md: "8px" }` */
+  radii?: Record<string, string>;
+  /** CSS `font-family` of the host */
+  fontFamily?: string;
+}
+
+/**
+ * JSON Schema document (as declared in the manifest)
+ */
+export type JsonSchema = Record<string, unknown>;
+
+/**
+ * A single JSON Schema violation
+ */
+export interface SchemaValidationError {
+  /** JSON pointer to the offending value ("" for the root) */
+  path: string;
+  /** Schema keyword that failed (e.g. "required", "type") */
+  keyword: string;
+  /** Human-readable description */
+  message: string;
+}
+
+/**
+ * A named output of a UI Task (e.g. "approved" / "rejected")
+ */
+export interface OutputPortDefinition {
+  description?: string;
+  /** Schema of the output sent through this port (default: the manifest `outputSchema`) */
+  outputSchema?: JsonSchema;
+}
+
+declare const outputPorts: unique symbol;
+
+/**
+ * Output type of a UI Task with named ports, mapping each port to its output
+ *
+ * @example
+ * ```ts
+ * type Output = OutputPorts<{
+ *   approved: { comment?: string };
+ *   rejected: { reason: string };
+ * }>;
+ *
+ * const { complete } = useBrixelTask<Inputs, Output>();
+ * complete({ reason: "Over budget" }, { port: "rejected" });
+ * ```
+ */
+export interface OutputPorts<TPorts extends Record<string, unknown>> {
+  readonly [outputPorts]: TPorts;
+}
+
+/** Port names of an output type (`string` for outputs without declared ports) */
+export type OutputPortName<TOutput> =
+  TOutput extends OutputPorts<infer TPorts> ? keyof TPorts & string : string;
+
+/** Output sent through a port (`TOutput` itself for outputs without declared ports) */
+export type PortOutput<TOutput, TPort extends string = OutputPortName<TOutput>> =
+  TOutput extends OutputPorts<infer TPorts> ? TPorts[TPort & keyof TPorts] : TOutput;
+
+/** Output of a completion with its port, discriminated by port for `OutputPorts` */
+export type PortedOutput<TOutput> =
+  TOutput extends OutputPorts<infer TPorts>
+    ? { [TPort in keyof TPorts & string]: { port: TPort; output: TPorts[TPort] } }[keyof TPorts & string]
+    : { port?: string; output: TOutput };
+
 /**
  * UI Task manifest schema
  */
@@ -64,8 +163,10 @@ export interface UITaskManifest {
   description?: string;
   renderMode: RenderMode;
   entry: string;
-  inputSchema?: Record<string, unknown>;
-  outputSchema?: Record<string, unknown>;
+  inputSchema?: JsonSchema;
+  outputSchema?: JsonSchema;
+  /** Named outputs; when declared, every completion must name one of them */
+  ports?: Record<string, OutputPortDefinition>;
   ui?: {
     height?: "auto" | number;
     minHeight?: number;
@@ -79,6 +180,41 @@ export interface UITaskManifest {
   };
 }
 
+/**
+ * Manifest with defaults applied (see `normalizeManifest`)
+ */
+export interface NormalizedUITaskManifest extends UITaskManifest {
+  ui: {
+    height: "auto" | number;
+    minHeight?: number;
+    maxHeight?: number;
+    preferredWidth: "message" | "full" | number;
+  };
+  permissions: {
+    network: string[];
+    files: boolean;
+    clipboard: boolean;
+  };
+}
+
+/**
+ * A problem found while validating a manifest
+ */
+export interface ManifestDiagnostic {
+  /** Errors make the manifest invalid; warnings do not */
+  severity: "error" | "warning";
+  /** JSON pointer to the offending field ("" for the root) */
+  path: string;
+  /** Stable identifier (e.g. "required", "invalid_type", "unknown_field") */
+  code: string;
+  /** Human-readable description */
+  message: string;
+}
+
+export type ManifestValidationResult =
+  | { valid: true; manifest: NormalizedUITaskManifest; diagnostics: ManifestDiagnostic[] }
+  | { valid: false; diagnostics: ManifestDiagnostic[] };
+
 // ============================================================================
 // PostMessage Protocol - Host to Iframe
 // ============================================================================
@@ -93,6 +229,15 @@ export interface InitMessage<TInputs = unknown> {
     inputs: TInputs;
     context: BrixelContext;
     renderMode: RenderMode;
+    /** Revision of `inputs`; each later update carries the next one */
+    inputsRevision?: number;
+    /** Drafts last saved with BRIXEL_SAVE_STATE, for an iframe that reloaded */
+    savedState?: Record<string, unknown>;
+    /**
+     * The host answers COMPLETE / CANCEL with ACK / REJECTED. Without it, the task
+     * sends them once and doesn't wait for an answer.
+     */
+    settlementAcks?: boolean;
   };
 }
 
@@ -104,6 +249,28 @@ export interface UpdateInputsMessage<TInputs = unknown> {
   payload: {
     runId: string;
     inputs: Partial<TInputs>;
+    /** How `inputs` are merged into the current ones (default: "shallow") */
+    merge?: InputsMergeStrategy;
+    /** Revision of the inputs once updated */
+    revision?: number;
+    /** `inputs` are complete and replace the current ones (`replaceInputs`, answer to BRIXEL_REQUEST_INPUTS) */
+    replace?: boolean;
+  };
+}
+
+/**
+ * PATCH_INPUTS: Sent when inputs change, as RFC 6902 JSON Patch operations
+ *
+ * A patch whose revision doesn't follow the task's, or that can't be applied, makes
+ * the task ask for the full inputs with BRIXEL_REQUEST_INPUTS.
+ */
+export interface PatchInputsMessage {
+  type: "BRIXEL_PATCH_INPUTS";
+  payload: {
+    runId: string;
+    operations: JsonPatchOperation[];
+    /** Revision of the inputs once patched */
+    revision: number;
   };
 }
 
@@ -125,6 +292,8 @@ export interface UpdateThemeMessage {
   payload: {
     runId: string;
     theme: BrixelContext["theme"];
+    /** Design tokens for the new theme (the previous ones are kept if omitted) */
+    designTokens?: BrixelDesignTokens;
   };
 }
 
@@ -139,12 +308,189 @@ export interface UpdateLocaleMessage {
   };
 }
 
+/**
+ * UPDATE_CONTEXT: Sent when any context field changes (user, capabilities, apiToken...)
+ *
+ * Fields are replaced, except `capabilities`, which is merged flag by flag.
+ */
+export interface UpdateContextMessage {
+  type: "BRIXEL_UPDATE_CONTEXT";
+  payload: {
+    runId: string;
+    context: Partial<BrixelContext>;
+  };
+}
+
+/**
+ * COMPLETE_ACK / CANCEL_ACK: Host accepted a COMPLETE / CANCEL
+ */
+export interface CompleteAckMessage {
+  type: "BRIXEL_COMPLETE_ACK";
+  payload: {
+    runId: string;
+    requestId: string;
+  };
+}
+
+export interface CancelAckMessage {
+  type: "BRIXEL_CANCEL_ACK";
+  payload: {
+    runId: string;
+    requestId: string;
+  };
+}
+
+/**
+ * COMPLETE_REJECTED / CANCEL_REJECTED: Host refused a COMPLETE / CANCEL,
+ * the task goes back to "ready"
+ */
+export interface CompleteRejectedMessage {
+  type: "BRIXEL_COMPLETE_REJECTED";
+  payload: {
+    runId: string;
+    requestId: string;
+    reason: string;
+    details?: unknown;
+  };
+}
+
+export interface CancelRejectedMessage {
+  type: "BRIXEL_CANCEL_REJECTED";
+  payload: {
+    runId: string;
+    requestId: string;
+    reason: string;
+    details?: unknown;
+  };
+}
+
+/**
+ * PONG: Host answers a PING (heartbeat)
+ */
+export interface PongMessage {
+  type: "BRIXEL_PONG";
+  payload: {
+    runId: string;
+    pingId: string;
+  };
+}
+
+/**
+ * CAPABILITY_RESULT: Host answers a BRIXEL_CAPABILITY_REQUEST
+ */
+export interface CapabilityResultMessage {
+  type: "BRIXEL_CAPABILITY_RESULT";
+  payload: {
+    runId: string;
+    requestId: string;
+    /** Set when the request was not carried out */
+    error?: { code: CapabilityErrorCode; message: string };
+  };
+}
+
+/**
+ * FILE_RESULT: Files picked for a BRIXEL_FILE_REQUEST; their content follows as BRIXEL_FILE_CHUNK
+ */
+export interface FileResultMessage {
+  type: "BRIXEL_FILE_RESULT";
+  payload: {
+    runId: string;
+    requestId: string;
+    /** Empty when the user dismissed the picker */
+    files?: FileDescriptor[];
+    error?: { code: CapabilityErrorCode; message: string };
+  };
+}
+
+/**
+ * FILE_CHUNK: Slice of a picked file (`data` is transferred)
+ */
+export interface FileChunkMessage {
+  type: "BRIXEL_FILE_CHUNK";
+  payload: {
+    runId: string;
+    requestId: string;
+    /** Position of the file in BRIXEL_FILE_RESULT */
+    index: number;
+    offset: number;
+    data: ArrayBuffer;
+  };
+}
+
+/**
+ * DOWNLOAD_RESULT: Host saved (or refused) a file offered with BRIXEL_DOWNLOAD
+ */
+export interface DownloadResultMessage {
+  type: "BRIXEL_DOWNLOAD_RESULT";
+  payload: {
+    runId: string;
+    requestId: string;
+    error?: { code: CapabilityErrorCode; message: string };
+  };
+}
+
+/**
+ * CONFIRM_RESULT: The user's answer to a BRIXEL_CONFIRM_REQUEST
+ */
+export interface ConfirmResultMessage {
+  type: "BRIXEL_CONFIRM_RESULT";
+  payload: {
+    runId: string;
+    requestId: string;
+    confirmed: boolean;
+  };
+}
+
+/**
+ * SUBTASK_RESULT: Outcome of a child UI Task opened with BRIXEL_OPEN_SUBTASK
+ */
+export interface SubtaskResultMessage<TOutput = unknown> {
+  type: "BRIXEL_SUBTASK_RESULT";
+  payload: {
+    runId: string;
+    requestId: string;
+    /** Set when the child ran (completed, cancelled, failed or was closed) */
+    outcome?: BrixelTaskOutcome<TOutput>;
+    /** Set when the child could not be opened */
+    error?: { code: CapabilityErrorCode; message: string };
+  };
+}
+
+/**
+ * TOKEN_RESULT: Host answers a BRIXEL_REQUEST_TOKEN
+ */
+export interface TokenResultMessage {
+  type: "BRIXEL_TOKEN_RESULT";
+  payload: {
+    runId: string;
+    requestId: string;
+    /** Set when a fresh token was issued */
+    apiToken?: string;
+    /** Set when no token could be issued */
+    error?: { code: CapabilityErrorCode; message: string };
+  };
+}
+
 export type HostToIframeMessage<TInputs = unknown> =
   | InitMessage<TInputs>
   | UpdateInputsMessage<TInputs>
   | DestroyMessage
   | UpdateThemeMessage
-  | UpdateLocaleMessage;
+  | UpdateLocaleMessage
+  | CompleteAckMessage
+  | CompleteRejectedMessage
+  | CancelAckMessage
+  | CancelRejectedMessage
+  | PongMessage
+  | CapabilityResultMessage
+  | FileResultMessage
+  | FileChunkMessage
+  | DownloadResultMessage
+  | ConfirmResultMessage
+  | SubtaskResultMessage
+  | UpdateContextMessage
+  | TokenResultMessage
+  | PatchInputsMessage;
 
 // ============================================================================
 // PostMessage Protocol - Iframe to Host
@@ -178,8 +524,9 @@ export interface CompleteMessage<TOutput = unknown> {
   type: "BRIXEL_COMPLETE";
   payload: {
     runId: string;
-    output: TOutput;
-  };
+    /** Identifies this completion; retries reuse it and the host echoes it in ACK/REJECTED */
+    requestId?: string;
+  } & PortedOutput<TOutput>;
 }
 
 /**
@@ -190,6 +537,8 @@ export interface CancelMessage {
   payload: {
     runId: string;
     reason?: string;
+    /** Identifies this cancellation; retries reuse it and the host echoes it in ACK/REJECTED */
+    requestId?: string;
   };
 }
 
@@ -204,6 +553,8 @@ export interface ErrorMessage {
       code: string;
       message: string;
       details?: unknown;
+      /** Whether the task cannot continue (default: true). Hosts may ignore non-fatal errors. */
+      fatal?: boolean;
     };
   };
 }
@@ -221,58 +572,806 @@ export interface LogMessage {
   };
 }
 
+/**
+ * PING: Heartbeat, the host answers with PONG
+ */
+export interface PingMessage {
+  type: "BRIXEL_PING";
+  payload: {
+    runId: string;
+    pingId: string;
+  };
+}
+
+/**
+ * PROGRESS: How far along the user is (long interactions)
+ */
+export interface ProgressMessage {
+  type: "BRIXEL_PROGRESS";
+  payload: {
+    runId: string;
+    /** Completion percentage, 0-100 */
+    percentage?: number;
+    /** Label of the current step (e.g. "Shipping address") */
+    step?: string;
+  };
+}
+
+/**
+ * PARTIAL_OUTPUT: Intermediate result handed over before completion
+ */
+export interface PartialOutputMessage<TOutput = unknown> {
+  type: "BRIXEL_PARTIAL_OUTPUT";
+  payload: {
+    runId: string;
+    output: Partial<PortOutput<TOutput>>;
+    /** Increments with each partial output of the run, so hosts can drop stale ones */
+    sequence: number;
+  };
+}
+
+/**
+ * CAPABILITY_REQUEST: Ask the host to do something the sandboxed iframe cannot
+ */
+export interface CapabilityRequestMessage {
+  type: "BRIXEL_CAPABILITY_REQUEST";
+  payload: {
+    runId: string;
+    /** Echoed in BRIXEL_CAPABILITY_RESULT */
+    requestId: string;
+  } & CapabilityRequest;
+}
+
+/**
+ * FILE_REQUEST: Ask the host to let the user pick files
+ */
+export interface FileRequestMessage {
+  type: "BRIXEL_FILE_REQUEST";
+  payload: {
+    runId: string;
+    requestId: string;
+  } & FileRequestOptions;
+}
+
+/**
+ * DOWNLOAD: Offer a file to the user; its content follows as BRIXEL_DOWNLOAD_CHUNK
+ */
+export interface DownloadMessage {
+  type: "BRIXEL_DOWNLOAD";
+  payload: {
+    runId: string;
+    requestId: string;
+    file: FileDescriptor;
+  };
+}
+
+/**
+ * DOWNLOAD_CHUNK: Slice of an offered file (`data` is transferred)
+ */
+export interface DownloadChunkMessage {
+  type: "BRIXEL_DOWNLOAD_CHUNK";
+  payload: {
+    runId: string;
+    requestId: string;
+    offset: number;
+    data: ArrayBuffer;
+  };
+}
+
+/**
+ * NOTIFY: Show a toast outside of the iframe bounds
+ */
+export interface NotifyMessage {
+  type: "BRIXEL_NOTIFY";
+  payload: {
+    runId: string;
+  } & NotifyOptions;
+}
+
+/**
+ * CONFIRM_REQUEST: Ask the user to confirm, answered with BRIXEL_CONFIRM_RESULT
+ */
+export interface ConfirmRequestMessage {
+  type: "BRIXEL_CONFIRM_REQUEST";
+  payload: {
+    runId: string;
+    requestId: string;
+  } & ConfirmOptions;
+}
+
+/**
+ * OPEN_SUBTASK: Ask the host to render a child UI Task, answered with BRIXEL_SUBTASK_RESULT
+ */
+export interface OpenSubtaskMessage<TInputs = unknown> {
+  type: "BRIXEL_OPEN_SUBTASK";
+  payload: {
+    runId: string;
+    requestId: string;
+    /** Conversation of the parent task, for the child's API calls */
+    conversationId?: string;
+  } & SubtaskOptions<TInputs>;
+}
+
+/**
+ * REQUEST_INPUTS: Ask the host for the full inputs after a missed or failed update
+ */
+export interface RequestInputsMessage {
+  type: "BRIXEL_REQUEST_INPUTS";
+  payload: {
+    runId: string;
+    /** Last revision the task applied */
+    revision: number;
+  };
+}
+
+/**
+ * REQUEST_TOKEN: Ask the host for a fresh API token (the current one was refused)
+ */
+export interface RequestTokenMessage {
+  type: "BRIXEL_REQUEST_TOKEN";
+  payload: {
+    runId: string;
+    requestId: string;
+  };
+}
+
+/**
+ * SAVE_STATE: Drafts to keep while the task is open, sent back in BRIXEL_INIT if the
+ * iframe reloads. Hosts discard them once the task completes or cancels.
+ */
+export interface SaveStateMessage {
+  type: "BRIXEL_SAVE_STATE";
+  payload: {
+    runId: string;
+    /** All drafts of the task, by key (JSON-serializable) */
+    state: Record<string, unknown>;
+  };
+}
+
+/**
+ * DESTROY_ACK: The UI Task finished cleaning up, the host can remove the iframe
+ */
+export interface DestroyAckMessage {
+  type: "BRIXEL_DESTROY_ACK";
+  payload: {
+    runId: string;
+  };
+}
+
 export type IframeToHostMessage<TOutput = unknown> =
   | ReadyMessage
   | ResizeMessage
   | CompleteMessage<TOutput>
   | CancelMessage
   | ErrorMessage
-  | LogMessage;
+  | LogMessage
+  | PingMessage
+  | DestroyAckMessage
+  | ProgressMessage
+  | PartialOutputMessage<TOutput>
+  | CapabilityRequestMessage
+  | FileRequestMessage
+  | DownloadMessage
+  | DownloadChunkMessage
+  | NotifyMessage
+  | ConfirmRequestMessage
+  | OpenSubtaskMessage
+  | RequestTokenMessage
+  | RequestInputsMessage
+  | SaveStateMessage;
 
 // ============================================================================
-// Hook Types
+// Client Types
 // ============================================================================
 
-export type TaskStatus = "initializing" | "ready" | "completed" | "cancelled" | "error";
+export type TaskStatus =
+  | "initializing"
+  | "ready"
+  | "completed"
+  | "cancelled"
+  | "error"
+  | "destroyed";
+
+/**
+ * State of the link with the host
+ * - "connecting": waiting for BRIXEL_INIT
+ * - "connected": initialized (and answering heartbeats, if enabled)
+ * - "lost": the host stopped answering heartbeats
+ */
+export type ConnectionState = "connecting" | "connected" | "lost";
+
+/**
+ * Known task error codes
+ * - "INIT_TIMEOUT": no BRIXEL_INIT within `initTimeoutMs`
+ * - "INVALID_INPUTS": inputs failed `inputSchema` (non-fatal for the host: corrected inputs recover)
+ * - "RENDER_ERROR": caught by `BrixelErrorBoundary`
+ * - "UNCAUGHT_ERROR" / "UNHANDLED_REJECTION": captured with `captureGlobalErrors`
+ */
+export type TaskErrorCode =
+  | "INIT_TIMEOUT"
+  | "INVALID_INPUTS"
+  | "RENDER_ERROR"
+  | "UNCAUGHT_ERROR"
+  | "UNHANDLED_REJECTION"
+  | (string & {});
+
+/**
+ * Error converted to plain data so it survives postMessage
+ */
+export interface SerializedError {
+  name: string;
+  message: string;
+  stack?: string;
+  cause?: SerializedError;
+}
+
+/**
+ * Why the task is in the "error" status
+ */
+export interface TaskError {
+  code: TaskErrorCode;
+  message: string;
+  details?: unknown;
+}
 
-export interface UseBrixelTaskResult<TInputs, TOutput> {
+/**
+ * Immutable view of the task state, replaced on every change
+ */
+export interface BrixelTaskSnapshot<TInputs = unknown> {
   /** Current inputs from the host */
   inputs: TInputs | null;
   /** Brixel context (user, theme, locale, etc.) */
   context: BrixelContext | null;
+  /** `context.theme` with "system" resolved, following OS changes */
+  resolvedTheme: ResolvedTheme;
   /** Current task status */
   status: TaskStatus;
+  /** Why `status` is "error" (null otherwise) */
+  error: TaskError | null;
+  /** State of the link with the host */
+  connection: ConnectionState;
   /** Render mode of this task */
   renderMode: RenderMode | null;
   /** Run ID for this execution */
   runId: string | null;
-  /** Complete the task with output (required for interaction mode) */
-  complete: (output: TOutput) => void;
-  /** Cancel the task */
-  cancel: (reason?: string) => void;
+  /** Schema violations of the current inputs and of the last rejected output */
+  validationErrors: {
+    inputs: SchemaValidationError[];
+    output: SchemaValidationError[];
+  };
+  /** Why the host refused the last complete()/cancel(), until the next attempt */
+  rejection: SettlementRejection | null;
+}
+
+export interface SettlementRejection {
+  /** Which action was refused */
+  action: "complete" | "cancel";
+  /** Reason given by the host */
+  reason: string;
+  details?: unknown;
+}
+
+/**
+ * Result of complete() / cancel()
+ * - "acknowledged": the host confirmed it
+ * - "rejected": the host refused it, the task is "ready" again
+ * - "unacknowledged": no confirmation before `ackTimeoutMs`, or the host doesn't send
+ *   any (the task stays settled)
+ * - "invalid": output failed `outputSchema`, nothing was sent
+ * - "ignored": nothing to settle (no run yet, or already settled)
+ */
+export type SettlementResult =
+  | { status: "acknowledged" }
+  | ({ status: "rejected" } & SettlementRejection)
+  | { status: "unacknowledged" }
+  | { status: "invalid"; errors: SchemaValidationError[] }
+  | { status: "ignored" };
+
+// ============================================================================
+// Capability Bridge
+// ============================================================================
+
+/**
+ * Host features a UI Task can request (see `BrixelContext.capabilities`)
+ */
+export type CapabilityRequest =
+  | { capability: "requestFullscreen" }
+  | { capability: "exitFullscreen" }
+  | { capability: "copyToClipboard"; text: string }
+  | { capability: "openExternalUrl"; url: string };
+
+export type BrixelCapability =
+  | CapabilityRequest["capability"]
+  | "requestFiles"
+  | "offerDownload"
+  | "confirm"
+  | "openSubtask"
+  | "refreshToken";
+
+export interface FileRequestOptions {
+  /** Accepted file types, as in `<input accept>` (e.g. ".csv,text/csv") */
+  accept?: string;
+  /** Allow picking several files (default: false) */
+  multiple?: boolean;
+  /** Reject files larger than this */
+  maxSizeBytes?: number;
+}
+
+export interface NotifyOptions {
+  /** Default: "info" */
+  level?: "info" | "success" | "warning" | "error";
+  message: string;
+  /** How long the toast stays visible; 0 keeps it until dismissed (default: 4000) */
+  durationMs?: number;
+}
+
+export interface ConfirmOptions {
+  title?: string;
+  message: string;
+  /** Default: "Confirm" */
+  confirmLabel?: string;
+  /** Default: "Cancel" */
+  cancelLabel?: string;
+  /** Style the confirm button as destructive (and focus "Cancel" by default) */
+  danger?: boolean;
+}
+
+export interface SubtaskOptions<TInputs = unknown> {
+  /** UI Task to open */
+  taskUuid: string;
+  inputs: TInputs;
+  /** How the host should render it (default: "modal") */
+  presentation?: "modal" | "inline";
+}
+
+/**
+ * File metadata sent ahead of its content
+ */
+export interface FileDescriptor {
+  name: string;
+  type: string;
+  size: number;
+  lastModified: number;
+}
+
+/**
+ * Why a capability request failed
+ *
+ * - "UNSUPPORTED": the host does not advertise the capability
+ * - "PERMISSION_DENIED": the manifest does not declare the permission
+ * - "DENIED": the host (or the browser) refused the request
+ * - "INVALID_ARGUMENT": e.g. a non-http(s) URL
+ * - "TOO_LARGE": a picked file exceeds `maxSizeBytes`
+ * - "DEPTH_EXCEEDED": a subtask would nest deeper than `maxSubtaskDepth`
+ * - "NOT_READY": no INIT received yet
+ * - "TIMEOUT": no answer within `requestTimeoutMs`
+ * - "ABORTED": the task was stopped or destroyed while waiting
+ */
+export type CapabilityErrorCode =
+  | "UNSUPPORTED"
+  | "PERMISSION_DENIED"
+  | "DENIED"
+  | "INVALID_ARGUMENT"
+  | "TOO_LARGE"
+  | "DEPTH_EXCEEDED"
+  | "NOT_READY"
+  | "TIMEOUT"
+  | "ABORTED";
+
+/**
+ * Options of `complete`
+ */
+export interface CompleteOptions<TPort extends string = string> {
+  /** Output port to complete through (required when the manifest declares `ports`) */
+  port?: TPort;
+}
+
+/**
+ * Arguments of `complete` after the output: for `OutputPorts` outputs, the options
+ * and their `port` are required
+ */
+export type CompleteArgs<TOutput, TPort extends string = OutputPortName<TOutput>> =
+  string extends OutputPortName<TOutput>
+    ? [options?: CompleteOptions<TPort>]
+    : [options: CompleteOptions<TPort> & { port: TPort }];
+
+/**
+ * Actions available to a UI Task
+ */
+export interface BrixelTaskActions<TOutput = unknown> {
+  /**
+   * Complete the task with output (required for interaction mode).
+   * Output that fails `outputSchema` is not sent; see `validationErrors.output`.
+   * Resolves once the host acknowledges or rejects it (or after `ackTimeoutMs`),
+   * right away if the host doesn't advertise `settlementAcks`.
+   */
+  complete: <TPort extends OutputPortName<TOutput>>(
+    output: PortOutput<TOutput, TPort>,
+    ...options: CompleteArgs<TOutput, TPort>
+  ) => Promise<SettlementResult>;
+  /** Cancel the task. Acknowledged like `complete`. */
+  cancel: (reason?: string) => Promise<SettlementResult>;
+  /**
+   * Report an error to the host (BRIXEL_ERROR). Fatal errors (the default) also move
+   * `status` to "error"; non-fatal ones are only reported.
+   */
+  reportError: (
+    code: TaskErrorCode,
+    message: string,
+    details?: unknown,
+    options?: { fatal?: boolean }
+  ) => void;
+  /** Report progress to the host (percentage is clamped to 0-100) */
+  reportProgress: (progress: { percentage?: number; step?: string }) => void;
+  /** Hand an intermediate result to the host before completion */
+  emitPartial: (output: Partial<PortOutput<TOutput>>) => void;
   /** Request height resize */
   setHeight: (height: number | "auto") => void;
   /** Send a log message to the host */
   log: (level: "debug" | "info" | "warn" | "error", message: string, data?: unknown) => void;
-  /** Whether running inside Brixel iframe */
-  isEmbedded: boolean;
-  /** Execute another UI Task (bound to current context) */
+  /**
+   * Ask the host to show the task fullscreen. Rejects with a `BrixelCapabilityError`
+   * unless `context.capabilities.fullscreen` is set and the host agrees.
+   */
+  requestFullscreen: () => Promise<void>;
+  /** Leave fullscreen. Same requirements as `requestFullscreen`. */
+  exitFullscreen: () => Promise<void>;
+  /**
+   * Copy text through the host. Requires `context.capabilities.clipboard` and, when a
+   * manifest is given, `permissions.clipboard`.
+   */
+  copyToClipboard: (text: string) => Promise<void>;
+  /** Open an http(s) URL in a new tab through the host. Requires `context.capabilities.externalLinks`. */
+  openExternalUrl: (url: string) => Promise<void>;
+  /**
+   * Let the user pick files through the host. Resolves with an empty array if the picker
+   * is dismissed. Requires `context.capabilities.fileUpload` and, with a manifest,
+   * `permissions.files`.
+   */
+  requestFiles: (options?: FileRequestOptions) => Promise<File[]>;
+  /**
+   * Hand a generated file to the host for download. Requires
+   * `context.capabilities.fileDownload` and, with a manifest, `permissions.files`.
+   */
+  offerDownload: (file: Blob, filename: string) => Promise<void>;
+  /**
+   * Show a toast. Rendered by the host with `context.capabilities.notifications`,
+   * inside the iframe otherwise.
+   */
+  notify: (options: NotifyOptions) => void;
+  /**
+   * Ask the user to confirm; resolves with their answer. Rendered by the host with
+   * `context.capabilities.dialogs`, as a modal inside the iframe otherwise.
+   */
+  confirm: (options: ConfirmOptions) => Promise<boolean>;
+  /**
+   * Have the host render another UI Task and wait for it. Resolves with its outcome
+   * (completed, cancelled, error or destroyed); rejects with a `BrixelCapabilityError`
+   * if it can't be opened. Requires `context.capabilities.subtasks`.
+   */
+  openSubtask: <TSubInputs = unknown, TSubOutput = unknown>(
+    options: SubtaskOptions<TSubInputs>
+  ) => Promise<BrixelTaskOutcome<TSubOutput>>;
+  /**
+   * Ask the host for a fresh API token; resolves with it once `context.apiToken` is
+   * updated. Requires `context.capabilities.tokenRefresh`.
+   */
+  refreshToken: () => Promise<string>;
+  /** Execute another UI Task (bound to current context, retried once with a fresh token on 401) */
   executeTask: <TTaskOutput = unknown>(
     params: Omit<ExecuteTaskParams, "conversationId" | "apiToken" | "apiBaseUrl">
   ) => Promise<ExecuteTaskResponse<TTaskOutput>>;
+  /** Execute another UI Task as an asynchronous job (bound to current context, cancelled on destroy) */
+  executeTaskAsync: <TTaskOutput = unknown>(
+    params: Omit<ExecuteTaskAsyncParams, "conversationId" | "apiToken" | "apiBaseUrl">
+  ) => TaskExecution<TTaskOutput>;
+}
+
+/**
+ * Events emitted by `BrixelTaskClient`
+ */
+export interface BrixelTaskClientEvents<TInputs = unknown> {
+  /** A valid BRIXEL_INIT was received */
+  init: InitMessage<TInputs>["payload"];
+  /** Inputs changed (after INIT or BRIXEL_UPDATE_INPUTS) */
+  inputs: TInputs;
+  /** Context changed (theme, locale, ...) */
+  context: BrixelContext;
+  /** The resolved theme changed (host update or OS switch) */
+  theme: ResolvedTheme;
+  /** Status changed */
+  status: TaskStatus;
+  /** Connection state changed */
+  connection: ConnectionState;
+  /** The host sent BRIXEL_DESTROY */
+  destroy: void;
+  /** An incoming message was rejected */
+  securityViolation: SecurityViolation;
+  /** Any part of the snapshot changed */
+  change: BrixelTaskSnapshot<TInputs>;
 }
 
-export interface UseBrixelTaskOptions {
-  /** Target origin for postMessage (default: "*", should be restricted in production) */
+/**
+ * Reason an incoming message was rejected
+ * - "source": not sent by the parent window
+ * - "origin": sent from an origin that is not allowed (or not the pinned host origin)
+ * - "runId": scoped to a stale or foreign run
+ */
+export type SecurityViolationReason = "source" | "origin" | "runId";
+
+export interface SecurityViolation {
+  reason: SecurityViolationReason;
+  /** Origin of the rejected message */
+  origin: string;
+  /** Type of the rejected message */
+  messageType: string;
+  /** Human-readable description */
+  message: string;
+}
+
+/**
+ * Auto-resize settings (see `BrixelTaskClientOptions.autoResize`)
+ */
+export interface AutoResizeOptions {
+  /**
+   * Element whose height is reported (default: `document.body`). Pass a function
+   * (e.g. `() => ref.current`) for elements rendered later; it is called on INIT.
+   */
+  element?: Element | (() => Element | null);
+  /** Shortest delay between two BRIXEL_RESIZE (default: 100) */
+  throttleMs?: number;
+  /** Smallest height reported (default: `manifest.ui.minHeight`) */
+  min?: number;
+  /** Largest height reported (default: `manifest.ui.maxHeight`) */
+  max?: number;
+}
+
+export interface BrixelTaskClientOptions {
+  /**
+   * Target origin for postMessage. When omitted, messages are pinned to the origin
+   * that sent the first valid BRIXEL_INIT (BRIXEL_READY is sent with "*",
+   * or with the only entry of `allowedOrigins` if it is a single string).
+   */
   targetOrigin?: string;
-  /** Callback when inputs are updated */
+  /** Origins allowed to send messages to the UI Task (default: any) */
+  allowedOrigins?: Array<string | RegExp>;
+  /** Callback when an incoming message is rejected */
+  onSecurityViolation?: (violation: SecurityViolation) => void;
+  /**
+   * Manifest whose `inputSchema`/`outputSchema`/`ports`/`permissions` are enforced at runtime,
+   * and whose `ui` limits apply to auto-resize
+   */
+  manifest?: Pick<UITaskManifest, "inputSchema" | "outputSchema" | "ports" | "permissions" | "ui">;
+  /** Schema for incoming inputs (overrides `manifest.inputSchema`) */
+  inputSchema?: JsonSchema;
+  /** Schema for outgoing output (overrides `manifest.outputSchema`) */
+  outputSchema?: JsonSchema;
+  /** First delay before re-sending BRIXEL_READY while no INIT arrived, doubled on each retry (default: 250) */
+  readyRetryIntervalMs?: number;
+  /** Upper bound for the READY re-send delay (default: 5000) */
+  readyRetryMaxIntervalMs?: number;
+  /**
+   * Move `status` to "error" (code "INIT_TIMEOUT") if no INIT arrives in time.
+   * READY keeps being re-sent, so a late INIT still initializes the task.
+   * Default: 30000 when embedded, disabled in standalone mode. Set to 0 to disable.
+   */
+  initTimeoutMs?: number;
+  /**
+   * Ping the host periodically and report `connection: "lost"` when it stops answering
+   * (default: disabled)
+   */
+  heartbeat?: {
+    /** Delay between pings (default: 5000) */
+    intervalMs?: number;
+    /** Time without PONG after which the host is considered lost (default: 15000) */
+    timeoutMs?: number;
+  };
+  /**
+   * Report `window` "error" and "unhandledrejection" events to the host as non-fatal
+   * BRIXEL_ERROR (codes "UNCAUGHT_ERROR" / "UNHANDLED_REJECTION") with serialized stacks
+   * (default: false)
+   */
+  captureGlobalErrors?: boolean;
+  /**
+   * How long complete()/cancel() wait for the host's acknowledgement, if the host
+   * advertises `settlementAcks` in INIT (default: 10000)
+   */
+  ackTimeoutMs?: number;
+  /** Interval between COMPLETE/CANCEL re-sends while unacknowledged (default: 1000) */
+  ackRetryIntervalMs?: number;
+  /**
+   * Time to wait for the host to answer a capability request, or between file chunks
+   * (default: 10000). The file picker itself is not timed.
+   */
+  requestTimeoutMs?: number;
+  /** Callback when inputs are updated (merged, patched or resynced), with the full resulting inputs */
   onInputsUpdate?: (inputs: unknown) => void;
-  /** Callback before destroy */
-  onDestroy?: () => void;
+  /**
+   * Set `context.designTokens` as CSS custom properties on `<html>` (`--brixel-color-*`,
+   * `--brixel-radius-*`, `--brixel-font-family`) along with `color-scheme` (default: false)
+   */
+  applyDesignTokens?: boolean;
+  /**
+   * Report the content height to the host with BRIXEL_RESIZE whenever it changes
+   * (default: enabled when embedded). `false` leaves resizing to `setHeight`.
+   */
+  autoResize?: false | AutoResizeOptions;
+  /**
+   * How drafts (`useBrixelDraft`, `saveDraft`) are saved with BRIXEL_SAVE_STATE,
+   * or to `sessionStorage` when not embedded
+   */
+  drafts?: {
+    /** Delay after the last change before saving (default: 500) */
+    debounceMs?: number;
+    /** Largest serialized size of all drafts; larger states are not saved (default: 65536) */
+    maxBytes?: number;
+  };
+  /**
+   * Cleanup when the host sends BRIXEL_DESTROY. Promises are awaited (up to
+   * `destroyTimeoutMs`) before BRIXEL_DESTROY_ACK is sent.
+   */
+  onDestroy?: () => void | Promise<void>;
+  /** Longest wait for `onDestroy` before acknowledging the destroy (default: 3000) */
+  destroyTimeoutMs?: number;
+  /** Enable debug logging */
+  debug?: boolean;
+}
+
+// ============================================================================
+// Hook Types
+// ============================================================================
+
+export interface UseBrixelTaskResult<TInputs, TOutput>
+  extends BrixelTaskSnapshot<TInputs>,
+    BrixelTaskActions<TOutput> {
+  /** Whether running inside Brixel iframe */
+  isEmbedded: boolean;
+}
+
+export type UseBrixelTaskOptions = BrixelTaskClientOptions;
+
+// ============================================================================
+// Host Types
+// ============================================================================
+
+/**
+ * Final outcome of a UI Task, as observed by the host
+ */
+export type BrixelTaskOutcome<TOutput = unknown> =
+  | ({ status: "completed" } & PortedOutput<TOutput>)
+  | { status: "cancelled"; reason?: string }
+  | { status: "error"; error: ErrorMessage["payload"]["error"] }
+  | { status: "destroyed" };
+
+/**
+ * `true` to accept a COMPLETE / CANCEL, or the reason to reject it
+ */
+export type HostSettlementDecision = true | { reason: string; details?: unknown };
+
+export interface BrixelHostOptions<TInputs = unknown, TOutput = unknown> {
+  /** Inputs sent to the UI Task with BRIXEL_INIT */
+  inputs: TInputs;
+  /** Context sent to the UI Task with BRIXEL_INIT */
+  context: BrixelContext;
+  /** Render mode of the UI Task (default: "interaction") */
+  renderMode?: RenderMode;
+  /**
+   * Origin the UI Task is served from. Messages from any other origin are ignored
+   * and outgoing messages are only delivered to this origin.
+   * Use "null" for sandboxed iframes without `allow-same-origin`.
+   */
+  allowedOrigin: string;
+  /** Run ID (default: `context.runId`) */
+  runId?: string;
+  /** Longest wait for BRIXEL_DESTROY_ACK in `destroy()` (default: 5000) */
+  destroyTimeoutMs?: number;
+  /** Apply BRIXEL_RESIZE requests to the iframe's height (default: true) */
+  autoResize?: boolean;
+  /** Callback when the UI Task signals READY */
+  onReady?: (version: string) => void;
+  /** Callback when the UI Task requests a height change */
+  onResize?: (height: number | "auto") => void;
+  /** Callback when the UI Task sends a log message */
+  onLog?: (level: LogMessage["payload"]["level"], message: string, data?: unknown) => void;
+  /** Callback for every error reported by the UI Task (fatal or not) */
+  onError?: (error: ErrorMessage["payload"]["error"]) => void;
+  /** Callback when the UI Task reports progress */
+  onProgress?: (progress: { percentage?: number; step?: string }) => void;
+  /** Callback when the UI Task emits a partial output (stale sequences are dropped) */
+  onPartialOutput?: (output: Partial<PortOutput<TOutput>>, sequence: number) => void;
+  /**
+   * Decide whether to accept the output of BRIXEL_COMPLETE (default: accept).
+   * Return a rejection to send BRIXEL_COMPLETE_REJECTED and keep the task open.
+   */
+  acceptCompletion?: (
+    output: PortOutput<TOutput>,
+    port?: OutputPortName<TOutput>
+  ) => HostSettlementDecision | Promise<HostSettlementDecision>;
+  /** Same as `acceptCompletion`, for BRIXEL_CANCEL */
+  acceptCancellation?: (reason?: string) => HostSettlementDecision | Promise<HostSettlementDecision>;
+  /**
+   * Decide whether to carry out a capability request (default: accept). Only requests
+   * advertised in `context.capabilities` reach this callback; accepted ones are
+   * performed by the host (fullscreen on the iframe, clipboard write, new tab).
+   */
+  acceptCapability?: (request: CapabilityRequest) => HostSettlementDecision | Promise<HostSettlementDecision>;
+  /**
+   * Provide files for BRIXEL_FILE_REQUEST (default: the browser file picker). Resolve
+   * with an empty array when the user dismisses the picker.
+   */
+  pickFiles?: (options: FileRequestOptions) => Promise<Blob[]>;
+  /** Save a file offered with BRIXEL_DOWNLOAD (default: browser download) */
+  saveDownload?: (file: File) => void | Promise<void>;
+  /** Show a BRIXEL_NOTIFY toast (advertise `capabilities.notifications` when set) */
+  onNotify?: (notification: NotifyOptions) => void;
+  /**
+   * Answer BRIXEL_CONFIRM_REQUEST (default: `window.confirm`). Advertise
+   * `capabilities.dialogs` to receive them.
+   */
+  confirm?: (options: ConfirmOptions) => boolean | Promise<boolean>;
+  /**
+   * Render a child UI Task for BRIXEL_OPEN_SUBTASK (e.g. a `BrixelTaskFrame` in a modal)
+   * and resolve with its outcome. `context` is prepared for the child: new runId, same
+   * conversation, depth + 1. Advertise `capabilities.subtasks` when set.
+   */
+  openSubtask?: (request: SubtaskRequest) => Promise<BrixelTaskOutcome>;
+  /** Deepest subtask nesting level allowed (default: 3) */
+  maxSubtaskDepth?: number;
+  /** How `updateInputs` merges into the current inputs (default: "shallow") */
+  inputsMerge?: InputsMergeStrategy;
+  /**
+   * Issue a fresh API token for BRIXEL_REQUEST_TOKEN (e.g. after it expired). The new
+   * token is kept in the context. Advertise `capabilities.tokenRefresh` when set.
+   */
+  refreshToken?: () => string | Promise<string>;
+  /** Drafts to restore in BRIXEL_INIT, e.g. kept from a previous `onSaveState` */
+  savedState?: Record<string, unknown>;
+  /**
+   * Callback when the UI Task saves its drafts, with null once it completes or cancels.
+   * Keep the state if the iframe may be recreated (e.g. when the chat re-renders).
+   */
+  onSaveState?: (state: Record<string, unknown> | null) => void;
   /** Enable debug logging */
   debug?: boolean;
 }
 
+/**
+ * A child UI Task to render, as received by `BrixelHostOptions.openSubtask`
+ */
+export interface SubtaskRequest extends SubtaskOptions {
+  /** Context for the child's BRIXEL_INIT */
+  context: BrixelContext;
+}
+
+export interface BrixelHost<TInputs = unknown, TOutput = unknown> {
+  /** Run ID of the embedded UI Task */
+  readonly runId: string;
+  /** Resolves once the UI Task completes, cancels, reports a fatal error or is destroyed */
+  readonly result: Promise<BrixelTaskOutcome<TOutput>>;
+  /** Whether the UI Task has signalled READY and received INIT */
+  isReady: () => boolean;
+  /** Send updated inputs (merged into the current inputs, see `inputsMerge`) */
+  updateInputs: (inputs: Partial<TInputs>) => void;
+  /** Send the complete inputs: fields missing from `inputs` are removed in the task too */
+  replaceInputs: (inputs: TInputs) => void;
+  /**
+   * Send RFC 6902 JSON Patch operations, e.g. to change one row of a large table.
+   * Nothing is sent if the patch doesn't apply to the current inputs.
+   */
+  patchInputs: (operations: JsonPatchOperation[]) => JsonPatchResult<TInputs>;
+  /** Send an updated theme, with the design tokens that go with it */
+  updateTheme: (theme: BrixelContext["theme"], designTokens?: BrixelDesignTokens) => void;
+  /** Send an updated locale */
+  updateLocale: (locale: string) => void;
+  /** Send updated context fields (`capabilities` is merged flag by flag) */
+  updateContext: (context: Partial<BrixelContext>) => void;
+  /**
+   * Send BRIXEL_DESTROY and stop listening to the iframe. Resolves once the UI Task
+   * acknowledges (or after `destroyTimeoutMs`): the iframe can then be removed safely.
+   */
+  destroy: () => Promise<void>;
+}
+
 // ============================================================================
 // Execute Task API Types
 // ============================================================================
@@ -289,19 +1388,275 @@ export interface ExecuteTaskParams {
   conversationId?: string;
   /** Optional API token (if not provided, uses credentials: 'include' as fallback) */
   apiToken?: string;
-  /** Optional custom API base URL (auto-detects dev/prod if not provided) */
+  /** API base URL (default: from `configureBrixel`, or auto-detected) */
   apiBaseUrl?: string;
+  /** Abort the request (including pending retries) */
+  signal?: AbortSignal;
+  /**
+   * Timeout of each attempt, in ms (default: 0, none: executions last as long as the
+   * task runs). `executeTaskAsync` defaults to 30000 per request.
+   */
+  timeoutMs?: number;
+  /** Retry policy for 429/503 (and transient failures of idempotent tasks), false to disable */
+  retry?:
+    | false
+    | {
+        /** Retries after the first attempt (default: 2) */
+        retries?: number;
+        /** First backoff delay, doubled each retry, with full jitter (default: 500) */
+        baseDelayMs?: number;
+        /** Longest backoff delay (default: 10000) */
+        maxDelayMs?: number;
+      };
+  /**
+   * Whether running the task twice is harmless. Enables retrying timeouts, network
+   * errors and 408/500/502/504, after which the task may already have run. Default: false.
+   */
+  idempotent?: boolean;
+}
+
+/**
+ * Error codes of executeTask
+ *
+ * - "NETWORK_ERROR": the request could not be sent
+ * - "TIMEOUT": no response within `timeoutMs`
+ * - "ABORTED": the signal aborted (or the task was destroyed)
+ * - "INVALID_RESPONSE": the server did not answer with valid JSON
+ * - "UNAUTHORIZED": HTTP 401, the token is missing or expired
+ * - "CANCELLED": an asynchronous job was cancelled on the server
+ * - server-provided codes, or `HTTP_<status>`
+ */
+export type ExecuteTaskErrorCode =
+  | "NETWORK_ERROR"
+  | "TIMEOUT"
+  | "ABORTED"
+  | "INVALID_RESPONSE"
+  | "UNAUTHORIZED"
+  | "CANCELLED"
+  | (string & {});
+
+export interface ExecuteTaskError {
+  code: ExecuteTaskErrorCode;
+  message: string;
+  details?: unknown;
+  /** HTTP status, when the server answered */
+  status?: number;
+  /** Number of attempts made */
+  attempts: number;
 }
 
 /**
  * Response from the execute task API
  */
-export interface ExecuteTaskResponse<TOutput = unknown> {
-  success: boolean;
-  data?: TOutput;
-  error?: {
-    code: string;
-    message: string;
-    details?: unknown;
-  };
+export type ExecuteTaskResponse<TOutput = unknown> =
+  | { success: true; data: TOutput; error?: undefined }
+  | { success: false; data?: undefined; error: ExecuteTaskError };
+
+/**
+ * Parameters for executing a UI Task as an asynchronous job
+ *
+ * `timeoutMs` applies to each HTTP request (submission, status polls), not to the job.
+ * `retry` and `idempotent` apply to the submission; status polls are always retried.
+ */
+export interface ExecuteTaskAsyncParams extends ExecuteTaskParams {
+  /**
+   * How to follow the job: "sse" streams server-sent events and falls back to
+   * polling if the stream is unavailable or drops (default: "sse")
+   */
+  transport?: "sse" | "polling";
+  /** First polling interval, reset whenever the job changes (default: 1000) */
+  pollIntervalMs?: number;
+  /** Polling interval ceiling, reached while the job doesn't change (default: 10000) */
+  maxPollIntervalMs?: number;
 }
+
+/**
+ * State of an asynchronous job
+ *
+ * - "submitting": the job is being created
+ * - "queued" / "running": the job is on the server
+ * - "completed" / "failed": the job finished
+ * - "cancelled": the job was cancelled, here or on the server
+ */
+export type TaskExecutionStatus = "submitting" | "queued" | "running" | "completed" | "failed" | "cancelled";
+
+/**
+ * Progress of an asynchronous job, as reported by the server
+ */
+export interface TaskExecutionProgress {
+  status: TaskExecutionStatus;
+  /** Completion percentage (0-100) */
+  percentage?: number;
+  /** Label of the current step */
+  step?: string;
+}
+
+/**
+ * Handle on an asynchronous job started with `executeTaskAsync`
+ *
+ * Iterating it yields every progress change since submission and ends once the job
+ * settles; it can be iterated more than once.
+ */
+export interface TaskExecution<TOutput = unknown> extends AsyncIterable<TaskExecutionProgress> {
+  /** Job ID assigned by the server, null until submitted */
+  readonly jobId: string | null;
+  /** Latest known progress */
+  status: () => TaskExecutionProgress;
+  /**
+   * Stop following the job and ask the server to cancel it (once it returns the job
+   * ID, if still submitting). `result` resolves with "ABORTED" right away.
+   */
+  cancel: () => Promise<void>;
+  /** Resolves once the job settles (never rejects) */
+  readonly result: Promise<ExecuteTaskResponse<TOutput>>;
+}
+
+/**
+ * Return type of `useTaskExecution`
+ */
+export interface UseTaskExecutionResult<TOutput = unknown> {
+  /** Start a job, cancelling the previous one. Resolves with its response. */
+  execute: (params: ExecuteTaskAsyncParams) => Promise<ExecuteTaskResponse<TOutput>>;
+  /** Cancel the current job */
+  cancel: () => void;
+  /** "idle" until `execute` is called */
+  status: TaskExecutionStatus | "idle";
+  /** Latest progress of the current job */
+  progress: TaskExecutionProgress | null;
+  /** Output of the current job once completed */
+  result: TOutput | null;
+  /** Error of the current job once failed or cancelled */
+  error: ExecuteTaskError | null;
+}
+
+/**
+ * Limits how many jobs run at once; the others wait in line
+ */
+export interface TaskQueue {
+  /** Run `job` once a slot is free */
+  run: <T>(job: () => Promise<T>) => Promise<T>;
+  /** Jobs running */
+  readonly active: number;
+  /** Jobs waiting for a slot */
+  readonly pending: number;
+}
+
+/**
+ * Options of `useExecuteTask`
+ *
+ * Outside a `BrixelTaskProvider`, pass `apiToken`, `conversationId` and `apiBaseUrl`
+ * here; inside one they come from the task context.
+ */
+export interface UseExecuteTaskOptions
+  extends Pick<
+    ExecuteTaskParams,
+    "timeoutMs" | "retry" | "idempotent" | "apiToken" | "conversationId" | "apiBaseUrl"
+  > {
+  /** Execute automatically on mount and whenever the task or inputs change (default: true) */
+  enabled?: boolean;
+  /** How long a successful response is reused for the same task and inputs, 0 to disable (default: 0) */
+  cacheTimeMs?: number;
+  /** Share an identical call already in flight instead of sending another (default: true) */
+  dedupe?: boolean;
+  /** Queue the calls go through (default: a shared queue running 4 at a time) */
+  queue?: TaskQueue;
+}
+
+/**
+ * Return type of `useExecuteTask`
+ */
+export interface UseExecuteTaskResult<TOutput = unknown> {
+  /** Output of the latest call for the current task and inputs */
+  data: TOutput | null;
+  /** Error of the latest call for the current task and inputs */
+  error: ExecuteTaskError | null;
+  /** Whether a call for the current task and inputs is pending */
+  isLoading: boolean;
+  /** Execute again, bypassing the cache and any call in flight */
+  refetch: () => Promise<ExecuteTaskResponse<TOutput>>;
+}
+
+// ============================================================================
+// Configuration Types
+// ============================================================================
+
+/**
+ * Paths of the Brixel API, relative to the API base URL (or absolute URLs).
+ * `{jobId}` is replaced with the job ID.
+ */
+export interface BrixelEndpoints {
+  /** Default: "/execute_task" */
+  executeTask: string;
+  /** Default: "/execute_task_async" */
+  executeTaskAsync: string;
+  /** Default: "/jobs/{jobId}" */
+  job: string;
+  /** Default: "/jobs/{jobId}/events" */
+  jobEvents: string;
+  /** Default: "/jobs/{jobId}/cancel" */
+  cancelJob: string;
+}
+
+/**
+ * Module-level configuration set with `configureBrixel`
+ */
+export interface BrixelConfig {
+  /**
+   * Named environment whose API base URL is used: "production", "local" or one added
+   * with `environments`. Default: "local" on localhost, "production" elsewhere.
+   */
+  environment?: string;
+  /** Additional (or overridden) environments, by name */
+  environments?: Record<string, string>;
+  /** API base URL, taking precedence over `environment` */
+  apiBaseUrl?: string;
+  /** Overridden API paths */
+  endpoints?: Partial<BrixelEndpoints>;
+  /** Log the resolved configuration and each API request */
+  debug?: boolean;
+}
+
+/**
+ * Configuration in effect, as returned by `getBrixelConfig`
+ *
+ * `context.apiBaseUrl` and the `apiBaseUrl` parameter still take precedence per call.
+ */
+export interface ResolvedBrixelConfig {
+  environment: string;
+  environments: Record<string, string>;
+  apiBaseUrl: string;
+  /** Where `apiBaseUrl` comes from */
+  source: "configured" | "environment" | "auto-detected";
+  endpoints: BrixelEndpoints;
+  debug: boolean;
+}
+
+// ============================================================================
+// Input Patch Types
+// ============================================================================
+
+/**
+ * RFC 6902 JSON Patch operation. Paths are JSON Pointers ("/rows/3/status").
+ */
+export type JsonPatchOperation =
+  | { op: "add"; path: string; value: unknown }
+  | { op: "remove"; path: string }
+  | { op: "replace"; path: string; value: unknown }
+  | { op: "move"; from: string; path: string }
+  | { op: "copy"; from: string; path: string }
+  | { op: "test"; path: string; value: unknown };
+
+/**
+ * How BRIXEL_UPDATE_INPUTS is merged into the current inputs
+ *
+ * - "shallow": top-level fields are replaced
+ * - "deep": nested objects are merged field by field; arrays and other values are replaced
+ */
+export type InputsMergeStrategy = "shallow" | "deep";
+
+/**
+ * Result of `applyJsonPatch`. A patch applies entirely or not at all.
+ */
+export type JsonPatchResult<T = unknown> =
+  | { ok: true; value: T }
+  | { ok: false; error: { index: number; message: string } };
@@ -0,0 +1,163 @@
+// @vitest-environment jsdom
+import { act } from "react";
+import type { ReactNode } from "react";
+import { createRoot } from "react-dom/client";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { BrixelTaskClient } from "./client";
+import { BrixelTaskProvider } from "./BrixelTaskProvider";
+import { useBrixelDraft } from "./useBrixelDraft";
+import { embed } from "./testUtils";
+
+(globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+  window.sessionStorage.clear();
+});
+
+describe("client drafts (embedded)", () => {
+  it("debounces saves into one BRIXEL_SAVE_STATE", () => {
+    const host = embed();
+    const client = new BrixelTaskClient({ drafts: { debounceMs: 200 } });
+    client.start();
+    host.init();
+
+    client.saveDraft("comment", "H");
+    vi.advanceTimersByTime(100);
+    client.saveDraft("comment", "Hi");
+    client.saveDraft("rating", 4);
+    vi.advanceTimersByTime(199);
+    expect(host.sent("BRIXEL_SAVE_STATE")).toHaveLength(0);
+
+    vi.advanceTimersByTime(1);
+    expect(host.sent("BRIXEL_SAVE_STATE")).toEqual([
+      { type: "BRIXEL_SAVE_STATE", payload: { runId: "run-1", state: { comment: "Hi", rating: 4 } } },
+    ]);
+    client.stop();
+  });
+
+  it("does not save drafts larger than maxBytes", () => {
+    const host = embed();
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    const client = new BrixelTaskClient({ drafts: { maxBytes: 32 } });
+    client.start();
+    host.init();
+
+    client.saveDraft("comment", "x".repeat(64));
+    vi.runOnlyPendingTimers();
+    expect(host.sent("BRIXEL_SAVE_STATE")).toHaveLength(0);
+    expect(error).toHaveBeenCalledWith(expect.stringContaining("exceeds the 32 byte limit"));
+    client.stop();
+  });
+
+  it("restores savedState from INIT, merging drafts saved before it", () => {
+    const host = embed();
+    const client = new BrixelTaskClient();
+    client.start();
+
+    client.saveDraft("comment", "typed before INIT");
+    host.init({ savedState: { comment: "older", rating: 3 } });
+    expect(client.getDraft("comment")).toBe("typed before INIT");
+    expect(client.getDraft("rating")).toBe(3);
+
+    vi.runOnlyPendingTimers();
+    expect(host.sent("BRIXEL_SAVE_STATE").at(-1)?.payload.state).toEqual({ comment: "typed before INIT", rating: 3 });
+    client.stop();
+  });
+
+  it("clears drafts once the task completes", async () => {
+    const host = embed();
+    const client = new BrixelTaskClient();
+    client.start();
+    host.init({ savedState: { comment: "Hi" } });
+
+    await client.complete({ done: true });
+    expect(client.getDraft("comment")).toBeUndefined();
+    client.saveDraft("comment", "after");
+    vi.runOnlyPendingTimers();
+    expect(host.sent("BRIXEL_SAVE_STATE")).toHaveLength(0);
+    client.stop();
+  });
+});
+
+describe("client drafts (standalone)", () => {
+  it("keeps drafts in sessionStorage across clients", () => {
+    const first = new BrixelTaskClient();
+    first.start();
+    first.saveDraft("comment", "Hi");
+    vi.runOnlyPendingTimers();
+    first.stop();
+
+    const second = new BrixelTaskClient();
+    expect(second.getDraft("comment")).toBe("Hi");
+  });
+
+  it("clears sessionStorage when the task cancels", async () => {
+    vi.spyOn(window, "postMessage").mockImplementation(() => {});
+    const client = new BrixelTaskClient();
+    client.start();
+    client.saveDraft("comment", "Hi");
+    vi.runOnlyPendingTimers();
+    window.dispatchEvent(
+      new MessageEvent("message", {
+        data: { type: "BRIXEL_INIT", payload: { runId: "run-1", inputs: {}, context: {}, renderMode: "interaction" } },
+        source: window,
+      })
+    );
+
+    await client.cancel();
+    expect(new BrixelTaskClient().getDraft("comment")).toBeUndefined();
+    client.stop();
+  });
+});
+
+describe("useBrixelDraft", () => {
+  function render(element: ReactNode) {
+    const container = document.createElement("div");
+    const root = createRoot(container);
+    act(() => root.render(element));
+    return { container, unmount: () => act(() => root.unmount()) };
+  }
+
+  it("throws a clear error outside a provider", () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    function Draft() {
+      useBrixelDraft("comment", "");
+      return null;
+    }
+    expect(() => render(<Draft />)).toThrow("useBrixelDraft() must be used inside <BrixelTaskProvider>");
+  });
+
+  it("works like useState and saves through the provider's client", () => {
+    const host = embed();
+    const client = new BrixelTaskClient();
+    let setComment: (value: string) => void = () => {};
+    function Draft() {
+      const [comment, set] = useBrixelDraft("comment", "");
+      setComment = set;
+      return <span>{comment}</span>;
+    }
+
+    const { container, unmount } = render(
+      <BrixelTaskProvider client={client}>
+        <Draft />
+      </BrixelTaskProvider>
+    );
+    client.start();
+    act(() => host.init({ savedState: { comment: "restored" } }));
+    expect(container.textContent).toBe("restored");
+
+    act(() => setComment("edited"));
+    expect(container.textContent).toBe("edited");
+    vi.runOnlyPendingTimers();
+    expect(host.sent("BRIXEL_SAVE_STATE").at(-1)?.payload.state).toEqual({ comment: "edited" });
+
+    unmount();
+    client.stop();
+  });
+});
@@ -0,0 +1,66 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { Dispatch, SetStateAction } from "react";
+import { useProvidedClient } from "./BrixelTaskProvider";
+
+/**
+ * State that survives iframe reloads, e.g. what the user typed so far
+ *
+ * Works like `useState`, but every change is saved to the host (debounced) with
+ * BRIXEL_SAVE_STATE. If the chat re-renders and the iframe reloads, the host sends
+ * the drafts back with BRIXEL_INIT and the hook picks up where the user left off.
+ * Outside Brixel, drafts are kept in `sessionStorage`. They are cleared once the
+ * task completes or cancels.
+ *
+ * Values must be JSON-serializable. `key` must be unique within the task. Must be
+ * used inside a `BrixelTaskProvider` (it throws otherwise): the client created by
+ * `useBrixelTask` alone is not shared with other hooks.
+ *
+ * @example
+ * ```tsx
+ * function Feedback() {
+ *   const [comment, setComment] = useBrixelDraft("comment", "");
+ *   const { complete } = useBrixelActions<Output>();
+ *
+ *   return (
+ *     <form onSubmit={() => complete({ comment })}>
+ *       <textarea value={comment} onChange={(event) => setComment(event.target.value)} />
+ *       <button type="submit">Send</button>
+ *     </form>
+ *   );
+ * }
+ * ```
+ */
+export function useBrixelDraft<T>(key: string, initialValue: T | (() => T)): [T, Dispatch<SetStateAction<T>>] {
+  const client = useProvidedClient("useBrixelDraft");
+  const [value, setValue] = useState<T>(() => {
+    const saved = client.getDraft(key);
+    if (saved !== undefined) return saved as T;
+    return typeof initialValue === "function" ? (initialValue as () => T)() : initialValue;
+  });
+
+  // Lets consecutive updates in one event build on each other
+  const latest = useRef(value);
+  latest.current = value;
+
+  // INIT may arrive after mount, with the drafts of the previous iframe
+  useEffect(
+    () =>
+      client.on("init", () => {
+        const saved = client.getDraft(key);
+        if (saved !== undefined) setValue(saved as T);
+      }),
+    [client, key]
+  );
+
+  const update = useCallback<Dispatch<SetStateAction<T>>>(
+    (action) => {
+      const next = typeof action === "function" ? (action as (previous: T) => T)(latest.current) : action;
+      latest.current = next;
+      setValue(next);
+      client.saveDraft(key, next);
+    },
+    [client, key]
+  );
+
+  return [value, update];
+}
@@ -0,0 +1,163 @@
+// @vitest-environment jsdom
+import { act } from "react";
+import type { ReactNode } from "react";
+import { createRoot } from "react-dom/client";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { useExecuteTask } from "./useExecuteTask";
+import { createTaskQueue } from "./taskQueue";
+import type { UseExecuteTaskOptions } from "./types";
+
+(globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+
+interface Call {
+  inputs: Record<string, unknown>;
+  authorization: string | undefined;
+  respond: (data: unknown) => Promise<void>;
+}
+
+/** An API answering each call when the test says so */
+function stubApi() {
+  const calls: Call[] = [];
+  vi.stubGlobal(
+    "fetch",
+    vi.fn(
+      (_url: string, init: RequestInit) =>
+        new Promise<Response>((resolve) => {
+          const headers = init.headers as Record<string, string>;
+          calls.push({
+            inputs: JSON.parse(init.body as string).inputs,
+            authorization: headers.Authorization,
+            respond: (data) => act(async () => resolve(Response.json(data))),
+          });
+        })
+    )
+  );
+  return calls;
+}
+
+function render(element: ReactNode) {
+  const container = document.createElement("div");
+  const root = createRoot(container);
+  act(() => root.render(element));
+  teardown.push(() => act(() => root.unmount()));
+  return {
+    container,
+    rerender: (next: ReactNode) => act(() => root.render(next)),
+    unmount: () => act(() => root.unmount()),
+  };
+}
+
+function Query({
+  taskUuid,
+  inputs,
+  options = {},
+}: {
+  taskUuid: string;
+  inputs: Record<string, unknown>;
+  options?: UseExecuteTaskOptions;
+}) {
+  const { data, error, isLoading } = useExecuteTask<string>(taskUuid, inputs, {
+    apiBaseUrl: "https://api.test",
+    ...options,
+  });
+  return <span>{isLoading ? "loading" : (error?.code ?? data)}</span>;
+}
+
+const flush = () => act(async () => {});
+
+let teardown: (() => void)[] = [];
+
+afterEach(() => {
+  teardown.forEach((dispose) => dispose());
+  teardown = [];
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe("useExecuteTask", () => {
+  it("shares an identical call in flight between components", async () => {
+    const calls = stubApi();
+    const { container } = render(
+      <>
+        <Query taskUuid="dedupe" inputs={{ city: "Paris", units: "metric" }} />
+        <Query taskUuid="dedupe" inputs={{ units: "metric", city: "Paris" }} />
+      </>
+    );
+    await flush();
+    expect(calls).toHaveLength(1);
+
+    await calls[0].respond("sunny");
+    expect(container.textContent).toBe("sunnysunny");
+  });
+
+  it("doesn't share calls or cached responses between credentials", async () => {
+    const calls = stubApi();
+    const options = { cacheTimeMs: 60_000 };
+    render(
+      <>
+        <Query taskUuid="scoped" inputs={{}} options={{ ...options, apiToken: "token-a" }} />
+        <Query taskUuid="scoped" inputs={{}} options={{ ...options, apiToken: "token-b" }} />
+      </>
+    );
+    await flush();
+    expect(calls.map((call) => call.authorization)).toEqual(["Bearer token-a", "Bearer token-b"]);
+
+    await calls[0].respond("for a");
+    await calls[1].respond("for b");
+    const { container } = render(<Query taskUuid="scoped" inputs={{}} options={{ ...options, apiToken: "token-b" }} />);
+    expect(container.textContent).toBe("for b");
+  });
+
+  it("reuses successful responses for cacheTimeMs", async () => {
+    const calls = stubApi();
+    const now = vi.spyOn(Date, "now").mockReturnValue(0);
+    const first = render(<Query taskUuid="cached" inputs={{ city: "Paris" }} options={{ cacheTimeMs: 1_000 }} />);
+    await flush();
+    await calls[0].respond("sunny");
+    first.unmount();
+
+    const second = render(<Query taskUuid="cached" inputs={{ city: "Paris" }} options={{ cacheTimeMs: 1_000 }} />);
+    await flush();
+    expect(second.container.textContent).toBe("sunny");
+    expect(calls).toHaveLength(1);
+    second.unmount();
+
+    now.mockReturnValue(1_000);
+    const third = render(<Query taskUuid="cached" inputs={{ city: "Paris" }} options={{ cacheTimeMs: 1_000 }} />);
+    await flush();
+    expect(third.container.textContent).toBe("loading");
+    expect(calls).toHaveLength(2);
+  });
+
+  it("runs calls through the queue", async () => {
+    const calls = stubApi();
+    const queue = createTaskQueue(1);
+    render(
+      <>
+        <Query taskUuid="queued" inputs={{ n: 1 }} options={{ queue }} />
+        <Query taskUuid="queued" inputs={{ n: 2 }} options={{ queue }} />
+      </>
+    );
+    await flush();
+    expect(calls).toHaveLength(1);
+    expect(queue.pending).toBe(1);
+
+    await calls[0].respond("one");
+    await flush();
+    expect(calls.map((call) => call.inputs)).toEqual([{ n: 1 }, { n: 2 }]);
+  });
+
+  it("ignores a slower response to earlier inputs", async () => {
+    const calls = stubApi();
+    const { container, rerender } = render(<Query taskUuid="latest" inputs={{ city: "Paris" }} />);
+    await flush();
+    rerender(<Query taskUuid="latest" inputs={{ city: "Oslo" }} />);
+    await flush();
+    expect(calls).toHaveLength(2);
+
+    await calls[1].respond("snowy");
+    expect(container.textContent).toBe("snowy");
+    await calls[0].respond("sunny");
+    expect(container.textContent).toBe("snowy");
+  });
+});
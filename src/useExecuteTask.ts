@@ -0,0 +1,210 @@
+import { useCallback, useContext, useEffect, useRef, useState } from "react";
+import type { ExecuteTaskResponse, UseExecuteTaskOptions, UseExecuteTaskResult } from "./types";
+import { BrixelTaskClientContext } from "./BrixelTaskProvider";
+import { createExecuteTask } from "./executeTask";
+import { createTaskQueue } from "./taskQueue";
+
+interface CacheEntry {
+  response: ExecuteTaskResponse<unknown>;
+  expiresAt: number;
+}
+
+interface QueryState<TOutput> extends Omit<UseExecuteTaskResult<TOutput>, "refetch"> {
+  key: string;
+}
+
+/**
+ * Successful responses, and calls in flight shared by components asking for the
+ * same task and inputs
+ */
+interface Store {
+  cache: Map<string, CacheEntry>;
+  inFlight: Map<string, Promise<ExecuteTaskResponse<unknown>>>;
+}
+
+const createStore = (): Store => ({ cache: new Map(), inFlight: new Map() });
+
+/** One store per task client: its responses were fetched with its context and credentials */
+const clientStores = new WeakMap<object, Store>();
+/** Outside a provider the credentials are part of the key instead */
+const standaloneStore = createStore();
+const sharedQueue = createTaskQueue();
+
+function storeFor(client: object | null): Store {
+  if (!client) return standaloneStore;
+  let store = clientStores.get(client);
+  if (!store) {
+    store = createStore();
+    clientStores.set(client, store);
+  }
+  return store;
+}
+
+/**
+ * JSON with object keys sorted, so `{ a, b }` and `{ b, a }` share a cache entry
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => stableStringify(item ?? null)).join(",")}]`;
+  }
+  if (typeof value === "object" && value !== null) {
+    const entries = Object.keys(value)
+      .sort()
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .map((key) => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+function cacheKey(
+  taskUuid: string,
+  inputs: Record<string, unknown>,
+  { apiToken, conversationId, apiBaseUrl }: UseExecuteTaskOptions,
+  bound: boolean
+): string {
+  const key = `${taskUuid}:${stableStringify(inputs)}`;
+  return bound ? key : `${stableStringify([apiBaseUrl, apiToken, conversationId])}:${key}`;
+}
+
+function readCache({ cache }: Store, key: string): ExecuteTaskResponse<unknown> | undefined {
+  const entry = cache.get(key);
+  if (!entry) return undefined;
+  if (entry.expiresAt > Date.now()) return entry.response;
+  cache.delete(key);
+  return undefined;
+}
+
+function writeCache({ cache }: Store, key: string, response: ExecuteTaskResponse<unknown>, cacheTimeMs: number) {
+  const now = Date.now();
+  for (const [otherKey, entry] of cache) {
+    if (entry.expiresAt <= now) cache.delete(otherKey);
+  }
+  cache.set(key, { response, expiresAt: now + cacheTimeMs });
+}
+
+function stateFor<TOutput>(store: Store, key: string, enabled: boolean): QueryState<TOutput> {
+  const cached = readCache(store, key);
+  return {
+    key,
+    data: cached?.success ? (cached.data as TOutput) : null,
+    error: null,
+    isLoading: enabled && !cached,
+  };
+}
+
+/**
+ * Execute a UI Task and track the result, for tasks that fetch data to display
+ *
+ * Executes on mount and again whenever `taskUuid` or `inputs` change (compared by
+ * value, not by reference). Only the response to the latest call is kept: slower
+ * responses to earlier inputs are ignored. Identical calls in flight are shared
+ * between components, and with `cacheTimeMs` successful responses are reused;
+ * both only between calls made with the same task client or credentials.
+ * Calls go through a queue so bursts don't flood the API.
+ *
+ * Inside a `BrixelTaskProvider`, calls are bound to the task context like
+ * `executeTask` from `useBrixelTask`.
+ *
+ * @example
+ * ```tsx
+ * function Weather({ city }: { city: string }) {
+ *   const { data, error, isLoading, refetch } = useExecuteTask<Forecast>(
+ *     "weather-task-uuid",
+ *     { city },
+ *     { cacheTimeMs: 60_000, idempotent: true }
+ *   );
+ *
+ *   if (isLoading) return <Spinner />;
+ *   if (error) return <button onClick={refetch}>Retry ({error.message})</button>;
+ *   return <ForecastView forecast={data} />;
+ * }
+ * ```
+ */
+export function useExecuteTask<TOutput = unknown>(
+  taskUuid: string,
+  inputs: Record<string, unknown>,
+  options: UseExecuteTaskOptions = {}
+): UseExecuteTaskResult<TOutput> {
+  const { enabled = true } = options;
+  const client = useContext(BrixelTaskClientContext);
+  const store = storeFor(client);
+  const key = cacheKey(taskUuid, inputs, options, client !== null);
+  const [state, setState] = useState<QueryState<TOutput>>(() => stateFor(store, key, enabled));
+
+  // Read at call time, so the effect only depends on the key
+  const latest = useRef({ taskUuid, inputs, options, client });
+  latest.current = { taskUuid, inputs, options, client };
+  // Identifies the latest call; responses to earlier calls are dropped
+  const callId = useRef(0);
+
+  const execute = useCallback((force: boolean): Promise<ExecuteTaskResponse<TOutput>> => {
+    const { taskUuid, inputs, options, client } = latest.current;
+    const { cacheTimeMs = 0, dedupe = true, queue = sharedQueue, timeoutMs, retry, idempotent } = options;
+    const store = storeFor(client);
+    const key = cacheKey(taskUuid, inputs, options, client !== null);
+    const id = ++callId.current;
+
+    const cached = force ? undefined : readCache(store, key);
+    if (cached) {
+      setState({ key, data: cached.data as TOutput, error: null, isLoading: false });
+      return Promise.resolve(cached as ExecuteTaskResponse<TOutput>);
+    }
+
+    setState((previous) => ({
+      key,
+      data: previous.key === key ? previous.data : null,
+      error: null,
+      isLoading: true,
+    }));
+
+    const { inFlight } = store;
+    let promise = dedupe && !force ? inFlight.get(key) : undefined;
+    if (!promise) {
+      const executeTask =
+        client?.executeTask ??
+        createExecuteTask({
+          apiToken: options.apiToken,
+          conversationId: options.conversationId,
+          apiBaseUrl: options.apiBaseUrl,
+        });
+      const call = queue.run(() => executeTask({ taskUuid, inputs, timeoutMs, retry, idempotent }));
+      promise = call;
+      inFlight.set(key, call);
+      call.then((response) => {
+        if (inFlight.get(key) === call) inFlight.delete(key);
+        if (response.success && cacheTimeMs > 0) writeCache(store, key, response, cacheTimeMs);
+      });
+    }
+
+    return promise.then((response) => {
+      if (id === callId.current) {
+        setState({
+          key,
+          data: response.success ? (response.data as TOutput) : null,
+          error: response.success ? null : response.error,
+          isLoading: false,
+        });
+      }
+      return response as ExecuteTaskResponse<TOutput>;
+    });
+  }, []);
+
+  useEffect(() => {
+    if (enabled) void execute(false);
+  }, [key, enabled, execute]);
+
+  // Drop responses arriving after unmount
+  useEffect(
+    () => () => {
+      callId.current++;
+    },
+    []
+  );
+
+  const refetch = useCallback(() => execute(true), [execute]);
+
+  // Before the effect catches up with new inputs, don't show the previous inputs' result
+  const current = state.key === key ? state : stateFor<TOutput>(store, key, enabled);
+  return { data: current.data, error: current.error, isLoading: current.isLoading, refetch };
+}
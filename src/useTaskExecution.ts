@@ -0,0 +1,89 @@
+import { useCallback, useContext, useEffect, useRef, useState } from "react";
+import type { ExecuteTaskAsyncParams, TaskExecution, UseTaskExecutionResult } from "./types";
+import { BrixelTaskClientContext } from "./BrixelTaskProvider";
+import { executeTaskAsync } from "./executeTaskAsync";
+
+type ExecutionState<TOutput> = Omit<UseTaskExecutionResult<TOutput>, "execute" | "cancel">;
+
+const IDLE: ExecutionState<never> = { status: "idle", progress: null, result: null, error: null };
+
+/**
+ * Run a UI Task as an asynchronous job and follow its progress
+ *
+ * Inside a `BrixelTaskProvider`, jobs are bound to the task context (token,
+ * conversation, API URL) like `executeTask` from `useBrixelTask`; elsewhere pass
+ * them in the params. Starting a job cancels the previous one, and the current job
+ * is cancelled when the component unmounts.
+ *
+ * @example
+ * ```tsx
+ * function ReportButton() {
+ *   const { execute, cancel, status, progress, result, error } = useTaskExecution<Report>();
+ *
+ *   if (status === "queued" || status === "running") {
+ *     return (
+ *       <div>
+ *         <progress value={progress?.percentage ?? 0} max={100} /> {progress?.step}
+ *         <button onClick={cancel}>Cancel</button>
+ *       </div>
+ *     );
+ *   }
+ *
+ *   return (
+ *     <div>
+ *       <button onClick={() => execute({ taskUuid: "task-123", inputs: { year: 2024 } })}>
+ *         Generate report
+ *       </button>
+ *       {result && <ReportView report={result} />}
+ *       {error && <p>{error.message}</p>}
+ *     </div>
+ *   );
+ * }
+ * ```
+ */
+export function useTaskExecution<TOutput = unknown>(): UseTaskExecutionResult<TOutput> {
+  const client = useContext(BrixelTaskClientContext);
+  const [state, setState] = useState<ExecutionState<TOutput>>(IDLE);
+  const execution = useRef<TaskExecution<TOutput> | null>(null);
+
+  useEffect(
+    () => () => {
+      void execution.current?.cancel();
+      execution.current = null;
+    },
+    []
+  );
+
+  const execute = useCallback(
+    async (params: ExecuteTaskAsyncParams) => {
+      void execution.current?.cancel();
+      const current = client ? client.executeTaskAsync<TOutput>(params) : executeTaskAsync<TOutput>(params);
+      execution.current = current;
+      setState({ ...IDLE, status: "submitting", progress: current.status() });
+
+      for await (const progress of current) {
+        // Superseded or unmounted
+        if (execution.current !== current) break;
+        setState((previous) => ({ ...previous, status: progress.status, progress }));
+      }
+
+      const response = await current.result;
+      if (execution.current === current) {
+        setState({
+          status: current.status().status,
+          progress: current.status(),
+          result: response.success ? response.data : null,
+          error: response.success ? null : response.error,
+        });
+      }
+      return response;
+    },
+    [client]
+  );
+
+  const cancel = useCallback(() => {
+    void execution.current?.cancel();
+  }, []);
+
+  return { ...state, execute, cancel };
+}